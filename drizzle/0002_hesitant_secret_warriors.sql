@@ -0,0 +1,2 @@
+ALTER TABLE "text_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(section_title, '')), 'A') || setweight(to_tsvector('english', content), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "text_chunks_search_vector_idx" ON "text_chunks" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "chunk_embeddings" (
+	"chunk_id" uuid NOT NULL,
+	"model" varchar(256) NOT NULL,
+	"embedding" vector NOT NULL,
+	CONSTRAINT "chunk_embeddings_chunk_id_model_pk" PRIMARY KEY("chunk_id","model")
+);
+--> statement-breakpoint
+CREATE TABLE "embedding_models" (
+	"name" varchar(256) PRIMARY KEY NOT NULL,
+	"provider" varchar(64) NOT NULL,
+	"dimensions" integer NOT NULL,
+	"status" varchar(16) DEFAULT 'building' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "text_chunks_embedding_idx";--> statement-breakpoint
+ALTER TABLE "chunk_embeddings" ADD CONSTRAINT "chunk_embeddings_chunk_id_text_chunks_id_fk" FOREIGN KEY ("chunk_id") REFERENCES "public"."text_chunks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chunk_embeddings" ADD CONSTRAINT "chunk_embeddings_model_embedding_models_name_fk" FOREIGN KEY ("model") REFERENCES "public"."embedding_models"("name") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Move existing 1536-dimension vectors into the text-embedding-3-small collection
+INSERT INTO "embedding_models" ("name", "provider", "dimensions", "status") VALUES ('text-embedding-3-small', 'openai', 1536, 'ready');--> statement-breakpoint
+INSERT INTO "chunk_embeddings" ("chunk_id", "model", "embedding") SELECT "id", 'text-embedding-3-small', "embedding" FROM "text_chunks";--> statement-breakpoint
+CREATE INDEX "chunk_embeddings_text_embedding_3_small_idx" ON "chunk_embeddings" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "model" = 'text-embedding-3-small';--> statement-breakpoint
+ALTER TABLE "text_chunks" DROP COLUMN "embedding";
\ No newline at end of file
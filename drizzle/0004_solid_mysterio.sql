@@ -0,0 +1,7 @@
+ALTER TABLE "documents" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "language" varchar(8) DEFAULT 'en' NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "location" varchar(256);--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "audience" text[];--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "effective_from" date;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "effective_to" date;--> statement-breakpoint
+CREATE INDEX "documents_tags_idx" ON "documents" USING gin ("tags");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "text_chunks" ADD COLUMN "audience" text[];
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"program" varchar(256) NOT NULL,
+	"role" varchar(256),
+	"name" varchar(256),
+	"phone" varchar(64),
+	"email" varchar(256),
+	"office_location" text,
+	"hours" text,
+	"source_url" text
+);
+--> statement-breakpoint
+CREATE INDEX "contacts_program_idx" ON "contacts" USING btree ("program");
\ No newline at end of file
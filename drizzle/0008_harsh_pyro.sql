@@ -0,0 +1 @@
+ALTER TABLE "text_chunks" ADD COLUMN "page" integer;
\ No newline at end of file
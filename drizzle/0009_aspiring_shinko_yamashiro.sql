@@ -0,0 +1 @@
+ALTER TABLE "chunk_embeddings" ADD COLUMN "content_hash" varchar(64);
\ No newline at end of file
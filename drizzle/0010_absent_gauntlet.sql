@@ -0,0 +1,2 @@
+ALTER TABLE "text_chunks" ADD COLUMN "position" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "text_chunks_document_position_idx" ON "text_chunks" USING btree ("document_id","position");
\ No newline at end of file
@@ -0,0 +1,96 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to add embeddings to a chunk file
+ *
+ * This script reads a JSONL chunk file (see src/lib/chunk-records.ts),
+ * embeds chunks that have no embedding or whose content hash changed (the
+ * text was edited, or the embedding model differs), and writes the complete
+ * records. Embeddings come from the local embedding cache when the same text
+ * was embedded before. Document and chunk metadata are carried through.
+ *
+ * Usage:
+ *   bun scripts/add-embeddings.ts <input.jsonl> [output.jsonl] [--trust-embeddings]
+ *
+ * Options:
+ *   --trust-embeddings  Keep embeddings written without a content hash when
+ *                       they have the model's dimension, instead of
+ *                       embedding those chunks again
+ *
+ * If output is not provided, defaults to input filename with "-embedded" suffix
+ */
+
+import { basename, dirname, join } from "node:path";
+import { modelConfig } from "@/lib/ai-provider";
+import { readChunkRecords, writeChunkRecords } from "@/lib/chunk-records";
+import { EMBEDDING_CACHE_PATH, embedChunkRecords } from "@/lib/embedding-cache";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const trustEmbeddings = args.includes("--trust-embeddings");
+  const [inputPath, output] = args.filter((arg) => !arg.startsWith("--"));
+
+  if (!inputPath) {
+    console.error("Error: Input chunk file path is required");
+    console.error(
+      "\nUsage: bun scripts/add-embeddings.ts <input.jsonl> [output.jsonl] [--trust-embeddings]",
+    );
+    process.exit(1);
+  }
+
+  // Determine output path
+  let outputPath = output;
+  if (!outputPath) {
+    const dir = dirname(inputPath);
+    const base = basename(inputPath, ".jsonl");
+    outputPath = join(dir, `${base}-embedded.jsonl`);
+  }
+
+  try {
+    console.log(`📖 Reading input from: ${inputPath}`);
+    const records = await readChunkRecords(inputPath);
+
+    if (records.length === 0) {
+      throw new Error("No chunks found in input file");
+    }
+
+    const withEmbedding = records.filter((record) => record.embedding).length;
+    console.log(
+      `   Found ${records.length} chunks (${withEmbedding} with embeddings)`,
+    );
+
+    // Chunks without an embedding, or whose text or model changed since
+    console.log(
+      `\n🤖 Embedding new and changed chunks (${modelConfig.embeddingProvider} ${modelConfig.embeddingModel} model)...`,
+    );
+    const { embedded, generated } = await embedChunkRecords(records, {
+      trustUnhashed: trustEmbeddings,
+    });
+    if (embedded > 0) {
+      console.log(
+        `✅ Embedded ${embedded} chunks (${embedded - generated} from the cache at ${EMBEDDING_CACHE_PATH})`,
+      );
+    } else {
+      console.log("✓ All embeddings are up to date, no generation needed");
+    }
+
+    console.log(`\n💾 Writing complete chunk file to: ${outputPath}`);
+    await writeChunkRecords(outputPath, records);
+
+    console.log("\n✨ Success!");
+    console.log(`   Total chunks processed: ${records.length}`);
+    console.log(`   Chunks embedded: ${embedded}`);
+    console.log(`   New embeddings generated: ${generated}`);
+    console.log(`   Output file: ${outputPath}`);
+    console.log(
+      `\n📝 Next step: Run "bun scripts/import.ts ${outputPath}" to import into database`,
+    );
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,62 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to check crisis detection against a corpus of example messages
+ *
+ * Each corpus entry pairs a message with the crisis category the keyword
+ * patterns should detect, or null for an ordinary question (including
+ * questions about school policy on crisis topics). Run it after changing the
+ * patterns; it exits with an error if any entry does not match.
+ *
+ * Usage:
+ *   bun scripts/check-crisis.ts [corpus-file]
+ *
+ * Default corpus: data/crisis-detection-corpus.json
+ */
+
+import { readFile } from "node:fs/promises";
+import { matchCrisisPatterns } from "@/lib/crisis-detection";
+import type { CrisisCategory } from "@/lib/crisis-resources";
+
+interface CorpusEntry {
+  input: string;
+  expected: CrisisCategory | null;
+}
+
+async function main() {
+  const corpusFile = process.argv[2] || "data/crisis-detection-corpus.json";
+
+  try {
+    const corpus: CorpusEntry[] = JSON.parse(
+      await readFile(corpusFile, "utf-8"),
+    );
+
+    console.log(`🚨 Checking ${corpus.length} entries from ${corpusFile}\n`);
+
+    let failures = 0;
+    for (const entry of corpus) {
+      const category = matchCrisisPatterns(entry.input);
+      if (category === entry.expected) {
+        console.log(`   ✓ ${entry.input} (${category ?? "none"})`);
+      } else {
+        failures++;
+        console.log(`   ✗ ${entry.input}`);
+        console.log(`       expected: ${entry.expected ?? "none"}`);
+        console.log(`       actual:   ${category ?? "none"}`);
+      }
+    }
+
+    if (failures > 0) {
+      console.error(`\n❌ ${failures} of ${corpus.length} entries failed`);
+      process.exit(1);
+    }
+
+    console.log(`\n✨ All ${corpus.length} entries classified as expected`);
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
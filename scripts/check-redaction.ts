@@ -0,0 +1,66 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to check PII redaction against a corpus of example questions
+ *
+ * Each corpus entry pairs a question as a family might type it with the
+ * expected redacted text. Run it after changing the redaction rules; it exits
+ * with an error if any entry does not match.
+ *
+ * Usage:
+ *   bun scripts/check-redaction.ts [corpus-file]
+ *
+ * Default corpus: data/pii-redaction-corpus.json
+ */
+
+import { readFile } from "node:fs/promises";
+import { DEFAULT_REDACTION_RULES, redactPii } from "@/lib/pii-redaction";
+
+interface CorpusEntry {
+  input: string;
+  expected: string;
+}
+
+async function main() {
+  const corpusFile = process.argv[2] || "data/pii-redaction-corpus.json";
+
+  try {
+    const corpus: CorpusEntry[] = JSON.parse(
+      await readFile(corpusFile, "utf-8"),
+    );
+
+    // Check the default rules with every type enabled, independent of env
+    const config = {
+      types: [...new Set(DEFAULT_REDACTION_RULES.map((rule) => rule.type))],
+      rules: DEFAULT_REDACTION_RULES,
+    };
+
+    console.log(`🔒 Checking ${corpus.length} entries from ${corpusFile}\n`);
+
+    let failures = 0;
+    for (const entry of corpus) {
+      const { text } = redactPii(entry.input, config);
+      if (text === entry.expected) {
+        console.log(`   ✓ ${entry.input}`);
+      } else {
+        failures++;
+        console.log(`   ✗ ${entry.input}`);
+        console.log(`       expected: ${entry.expected}`);
+        console.log(`       actual:   ${text}`);
+      }
+    }
+
+    if (failures > 0) {
+      console.error(`\n❌ ${failures} of ${corpus.length} entries failed`);
+      process.exit(1);
+    }
+
+    console.log(`\n✨ All ${corpus.length} entries redacted as expected`);
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
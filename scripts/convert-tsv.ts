@@ -0,0 +1,186 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to convert a legacy TSV chunk file to the JSONL chunk format
+ *
+ * Reads the columns document_title, source_url, section_title,
+ * chunk_content and embedding (by header row when present), plus the
+ * optional audience, tags, page, effective_from, effective_to and supersedes
+ * columns. Rows broken by newlines inside a field are merged back together
+ * and spreadsheet quoting is removed. Every row is validated against the
+ * chunk record schema (see src/lib/chunk-records.ts).
+ *
+ * Usage:
+ *   bun scripts/convert-tsv.ts <input.tsv> [output.jsonl]
+ *
+ * If output is not provided, defaults to input filename with a .jsonl
+ * extension
+ */
+
+import { readFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { z } from "zod";
+import {
+  type ChunkRecord,
+  chunkRecordSchema,
+  writeChunkRecords,
+} from "@/lib/chunk-records";
+
+// Column order for files without a header row
+const DEFAULT_COLUMNS = [
+  "document_title",
+  "source_url",
+  "section_title",
+  "chunk_content",
+  "embedding",
+];
+
+/**
+ * Strip spreadsheet-style quoting: "say ""hi""" -> say "hi"
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).replace(/""/g, '"');
+  }
+  return trimmed;
+}
+
+/**
+ * Parse a comma-separated list cell, e.g. "student, parent"
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  const items = (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length ? items : undefined;
+}
+
+interface SourceLine {
+  line: string;
+  // 1-based line in the input file, for errors
+  lineNumber: number;
+}
+
+/**
+ * Merge lines broken by newlines inside a field into the row they belong to:
+ * a line with fewer fields than the header continues the previous row
+ */
+function repairRows(lines: SourceLine[], expectedFields: number) {
+  const rows: SourceLine[] = [];
+  let merged = 0;
+
+  for (const { line, lineNumber } of lines) {
+    const current = rows.at(-1);
+    if (current && line.split("\t").length < expectedFields) {
+      current.line += ` ${line.trim()}`;
+      merged++;
+    } else {
+      rows.push({ line, lineNumber });
+    }
+  }
+
+  return { rows, merged };
+}
+
+async function main() {
+  const inputPath = process.argv[2];
+
+  if (!inputPath) {
+    console.error("Error: Input TSV file path is required");
+    console.error(
+      "\nUsage: bun scripts/convert-tsv.ts <input.tsv> [output.jsonl]",
+    );
+    process.exit(1);
+  }
+
+  let outputPath = process.argv[3];
+  if (!outputPath) {
+    const dir = dirname(inputPath);
+    const base = basename(inputPath, ".tsv");
+    outputPath = join(dir, `${base}.jsonl`);
+  }
+
+  try {
+    console.log(`📖 Reading input from: ${inputPath}`);
+    const content = await readFile(inputPath, "utf-8");
+    const lines = content.split("\n").map((line) => line.replace(/\r$/, ""));
+
+    const headerIndex = lines.findIndex((line) =>
+      line.startsWith("document_title"),
+    );
+    const columns =
+      headerIndex === -1 ? DEFAULT_COLUMNS : lines[headerIndex].split("\t");
+    const dataLines = lines.flatMap((line, i) =>
+      line.trim() && !line.startsWith("#") && i !== headerIndex
+        ? [{ line, lineNumber: i + 1 }]
+        : [],
+    );
+    const { rows, merged } = repairRows(dataLines, columns.length);
+
+    const records: ChunkRecord[] = rows.map(({ line, lineNumber }) => {
+      const location = `${inputPath}:${lineNumber}`;
+      const cells = line.split("\t");
+      const cell = (column: string) => {
+        const index = columns.indexOf(column);
+        const value = index === -1 ? "" : unquote(cells[index] ?? "");
+        return value || undefined;
+      };
+
+      let embedding: unknown;
+      const embeddingCell = cell("embedding");
+      if (embeddingCell) {
+        try {
+          embedding = JSON.parse(embeddingCell);
+        } catch (error) {
+          throw new Error(`${location}: invalid embedding (${error})`);
+        }
+      }
+
+      const page = cell("page");
+      const audience = parseList(cell("audience"));
+      const result = chunkRecordSchema.safeParse({
+        document: {
+          title: cell("document_title"),
+          sourceUrl: cell("source_url"),
+          tags: parseList(cell("tags")),
+          effectiveFrom: cell("effective_from"),
+          effectiveTo: cell("effective_to"),
+          supersedes: cell("supersedes"),
+        },
+        section: cell("section_title"),
+        content: cell("chunk_content"),
+        metadata:
+          audience || page
+            ? { audience, page: page ? Number(page) : undefined }
+            : undefined,
+        embedding,
+      });
+      if (!result.success) {
+        throw new Error(
+          `${location}: invalid row\n${z.prettifyError(result.error)}`,
+        );
+      }
+      return result.data;
+    });
+
+    if (merged > 0) {
+      console.log(`   ✓ Merged ${merged} broken continuation lines`);
+    }
+
+    console.log(`\n💾 Writing chunk file to: ${outputPath}`);
+    await writeChunkRecords(outputPath, records);
+
+    console.log("\n✨ Success!");
+    console.log(`   Chunks converted: ${records.length}`);
+    console.log(`   Output file: ${outputPath}`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,10 +1,10 @@
 #!/usr/bin/env bun
 
 /**
- * CLI script to generate embeddings and create a TSV file
+ * CLI script to generate embeddings and create a chunk file
  *
  * This script reads a JSON file with document chunks and generates
- * embeddings for each chunk, outputting a TSV file ready for import.
+ * embeddings for each chunk, outputting a JSONL chunk file ready for import.
  *
  * Input JSON format:
  * [
@@ -25,14 +25,16 @@
  * ]
  *
  * Usage:
- *   bun scripts/generate-embeddings.ts <input.json> [output.tsv]
+ *   bun scripts/generate-embeddings.ts <input.json> [output.jsonl]
  *
- * If output is not provided, defaults to data/document-chunks.tsv
+ * If output is not provided, defaults to data/document-chunks.jsonl
  */
 
-import { generateEmbeddings } from "@/lib/generate-embeddings";
-import { readFile, writeFile } from "node:fs/promises";
+import { readFile } from "node:fs/promises";
 import { join } from "node:path";
+import { modelConfig } from "@/lib/ai-provider";
+import { type ChunkRecord, writeChunkRecords } from "@/lib/chunk-records";
+import { embedChunkRecords } from "@/lib/embedding-cache";
 
 interface ChunkInput {
   sectionTitle?: string;
@@ -45,23 +47,15 @@ interface DocumentInput {
   chunks: ChunkInput[];
 }
 
-interface TSVRow {
-  documentTitle: string;
-  sourceUrl: string;
-  sectionTitle: string;
-  content: string;
-  embedding: number[];
-}
-
 async function main() {
   const inputPath = process.argv[2];
   const outputPath =
-    process.argv[3] || join(process.cwd(), "data/document-chunks.tsv");
+    process.argv[3] || join(process.cwd(), "data/document-chunks.jsonl");
 
   if (!inputPath) {
     console.error("Error: Input JSON file path is required");
     console.error(
-      "\nUsage: bun scripts/generate-embeddings.ts <input.json> [output.tsv]",
+      "\nUsage: bun scripts/generate-embeddings.ts <input.json> [output.jsonl]",
     );
     console.error("\nExample input JSON structure:");
     console.error(
@@ -95,7 +89,7 @@ async function main() {
     }
 
     // Prepare all chunks for batch embedding
-    const allRows: Omit<TSVRow, "embedding">[] = [];
+    const allRecords: ChunkRecord[] = [];
     const allTexts: string[] = [];
 
     for (const doc of documents) {
@@ -110,10 +104,9 @@ async function main() {
           );
         }
 
-        allRows.push({
-          documentTitle: doc.documentTitle,
-          sourceUrl: doc.sourceUrl || "",
-          sectionTitle: chunk.sectionTitle || "",
+        allRecords.push({
+          document: { title: doc.documentTitle, sourceUrl: doc.sourceUrl },
+          section: chunk.sectionTitle,
           content: chunk.content,
         });
         allTexts.push(chunk.content);
@@ -126,32 +119,18 @@ async function main() {
 
     console.log(`\n🤖 Generating embeddings for ${allTexts.length} chunks...`);
     console.log(
-      `   (Using OpenAI text-embedding-3-small model, 1536 dimensions)`,
+      `   (Using ${modelConfig.embeddingProvider} ${modelConfig.embeddingModel} model)`,
     );
 
-    const embeddings = await generateEmbeddings(allTexts);
+    const { embedded, generated } = await embedChunkRecords(allRecords);
 
-    console.log(`✅ Generated ${embeddings.length} embeddings`);
-
-    // Combine rows with embeddings
-    const completeRows: TSVRow[] = allRows.map((row, i) => ({
-      ...row,
-      embedding: embeddings[i],
-    }));
-
-    // Generate TSV content
-    const header =
-      "document_title\tsource_url\tsection_title\tchunk_content\tembedding";
-    const rows = completeRows.map(
-      (row) =>
-        `${row.documentTitle}\t${row.sourceUrl}\t${row.sectionTitle}\t${row.content}\t${JSON.stringify(row.embedding)}`,
+    console.log(
+      `✅ Embedded ${embedded} chunks (${embedded - generated} from the embedding cache)`,
     );
 
-    const tsvContent = [header, ...rows].join("\n");
-
     // Write to file
-    console.log(`\n💾 Writing TSV to: ${outputPath}`);
-    await writeFile(outputPath, tsvContent, "utf-8");
+    console.log(`\n💾 Writing chunk file to: ${outputPath}`);
+    await writeChunkRecords(outputPath, allRecords);
 
     console.log("\n✨ Success!");
     console.log(`   Documents processed: ${documents.length}`);
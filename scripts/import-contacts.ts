@@ -0,0 +1,32 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to import the contacts and referral directory from a TSV file
+ *
+ * Usage:
+ *   bun scripts/import-contacts.ts [path-to-tsv]
+ *
+ * TSV format:
+ * program	role	name	phone	email	office_location	hours	source_url
+ *
+ * Only program is required, plus at least one of phone, email or
+ * office_location. Re-running updates contacts with the same program, role
+ * and name. If no path is provided, defaults to data/contacts.tsv
+ */
+
+import { join } from "node:path";
+import { importContactsFromTSV } from "@/lib/import-contacts";
+
+const filepath = process.argv[2] || join(process.cwd(), "data/contacts.tsv");
+
+console.log(`Importing contacts from: ${filepath}`);
+
+try {
+  await importContactsFromTSV(filepath);
+  console.log("\n✅ Import completed successfully!");
+  process.exit(0);
+} catch (error) {
+  console.error("\n❌ Import failed:");
+  console.error(error);
+  process.exit(1);
+}
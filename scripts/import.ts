@@ -1,26 +1,31 @@
 #!/usr/bin/env bun
 
 /**
- * CLI script to import document chunks from a TSV file
+ * CLI script to import document chunks from a JSONL chunk file
  *
  * Usage:
- *   bun scripts/import.ts [path-to-tsv] [--update]
+ *   bun scripts/import.ts [path-to-jsonl] [--update] [--trust-embeddings]
  *
  * Options:
- *   --update    Update existing chunks instead of skipping them
+ *   --update            Also update metadata of unchanged chunks instead of
+ *                       skipping them; edited chunks are always replaced
+ *   --trust-embeddings  Keep embeddings written without a content hash when
+ *                       they have the model's dimension, instead of
+ *                       embedding those chunks again
  *
- * If no path is provided, defaults to data/document-chunks.tsv
+ * If no path is provided, defaults to data/document-chunks.jsonl
  */
 
-import { importChunksFromTSV } from "@/lib/import-chunks";
 import { join } from "node:path";
+import { importChunks } from "@/lib/import-chunks";
 
 // Parse arguments
 const args = process.argv.slice(2);
 const updateMode = args.includes("--update");
+const trustEmbeddings = args.includes("--trust-embeddings");
 const filepath =
   args.find((arg) => !arg.startsWith("--")) ||
-  join(process.cwd(), "data/document-chunks.tsv");
+  join(process.cwd(), "data/document-chunks.jsonl");
 
 console.log(`Importing chunks from: ${filepath}`);
 console.log(
@@ -28,7 +33,10 @@ console.log(
 );
 
 try {
-  await importChunksFromTSV(filepath, { updateExisting: updateMode });
+  await importChunks(filepath, {
+    updateExisting: updateMode,
+    trustEmbeddings,
+  });
   console.log("\n✅ Import completed successfully!");
   process.exit(0);
 } catch (error) {
@@ -0,0 +1,146 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to extract document chunks from a folder of mixed documents
+ *
+ * PDF, Markdown, HTML and Word (.docx) files are extracted locally; headings
+ * become the section_title of the text that follows them, and each section
+ * is split with the token-aware chunker (CHUNK_* settings). Chunk files
+ * (.jsonl) in the folder are copied through as they are, so hand-prepared
+ * chunks and documents can live side by side. Output is a JSONL chunk file
+ * (see src/lib/chunk-records.ts) that clean-encoding.ts and
+ * add-embeddings.ts consume.
+ *
+ * Usage:
+ *   bun scripts/ingest-documents.ts <folder> [output.jsonl] [--source-url <url>]
+ *
+ * Options:
+ *   --source-url  Source URL for every extracted document; "{file}" is
+ *                 replaced with the file name, e.g.
+ *                 https://example.org/uploads/{file}
+ *
+ * The document title is the document's own title (PDF metadata, first
+ * top-level heading, or HTML page title), or else its file name.
+ * If output is not provided, defaults to data/document-chunks.jsonl
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import {
+  type ChunkRecord,
+  readChunkRecords,
+  writeChunkRecords,
+} from "@/lib/chunk-records";
+import { chunkBlocks } from "@/lib/chunker";
+import {
+  DOCUMENT_EXTENSIONS,
+  extractDocument,
+} from "@/lib/document-extraction";
+
+/**
+ * "Wellness-Policy-2023-24.pdf" -> "Wellness Policy 2023-24"
+ */
+function titleFromFileName(file: string): string {
+  return basename(file, extname(file))
+    .replace(/_+/g, " ")
+    .replace(/(?<=\p{L})-|-(?=\p{L})/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const sourceUrlIndex = args.indexOf("--source-url");
+  const sourceUrlTemplate =
+    sourceUrlIndex === -1 ? "" : (args[sourceUrlIndex + 1] ?? "");
+  const positional = args.filter(
+    (arg, i) =>
+      !arg.startsWith("--") &&
+      (sourceUrlIndex === -1 || i !== sourceUrlIndex + 1),
+  );
+  const [
+    folder,
+    outputPath = join(process.cwd(), "data/document-chunks.jsonl"),
+  ] = positional;
+
+  if (!folder) {
+    console.error("Error: Folder path is required");
+    console.error(
+      "\nUsage: bun scripts/ingest-documents.ts <folder> [output.jsonl] [--source-url <url>]",
+    );
+    process.exit(1);
+  }
+
+  try {
+    const files = (await readdir(folder))
+      .filter((file) =>
+        [...DOCUMENT_EXTENSIONS, ".jsonl"].includes(
+          extname(file).toLowerCase(),
+        ),
+      )
+      .sort();
+    if (files.length === 0) {
+      throw new Error(`No documents found in ${folder}`);
+    }
+    console.log(`📖 Extracting ${files.length} files from: ${folder}`);
+
+    const records: ChunkRecord[] = [];
+
+    for (const file of files) {
+      const path = join(folder, file);
+
+      if (extname(file).toLowerCase() === ".jsonl") {
+        const copied = await readChunkRecords(path);
+        records.push(...copied);
+        console.log(`   ✓ ${file}: ${copied.length} chunks copied`);
+        continue;
+      }
+
+      const { title, blocks } = await extractDocument(
+        file,
+        new Uint8Array(await readFile(path)),
+      );
+      const documentTitle = title ?? titleFromFileName(file);
+      const sourceUrl = sourceUrlTemplate.replace(
+        "{file}",
+        encodeURIComponent(file),
+      );
+
+      if (blocks.length === 0) {
+        console.warn(`   ⚠️  No text found in ${file} (scanned PDF?)`);
+        continue;
+      }
+
+      const chunks = chunkBlocks(blocks);
+      const sections = new Set(chunks.map((chunk) => chunk.sectionTitle)).size;
+      console.log(
+        `   ✓ ${file}: "${documentTitle}", ${chunks.length} chunks in ${sections} sections`,
+      );
+
+      for (const chunk of chunks) {
+        records.push({
+          document: { title: documentTitle, sourceUrl: sourceUrl || undefined },
+          section: chunk.sectionTitle || undefined,
+          content: chunk.content,
+          metadata: chunk.page ? { page: chunk.page } : undefined,
+        });
+      }
+    }
+
+    console.log(`\n💾 Writing chunks to: ${outputPath}`);
+    await writeChunkRecords(outputPath, records);
+
+    console.log("\n✨ Success!");
+    console.log(`   Total chunks: ${records.length}`);
+    console.log(
+      `\n📝 Next step: Run "bun scripts/add-embeddings.ts ${outputPath}" to add embeddings`,
+    );
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,105 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to re-chunk an existing chunk file
+ *
+ * Chunks of each document are joined back into sections and split again with
+ * the token-aware chunker, so tiny chunks are merged and oversized ones split.
+ * Chunks never cross a section or a change of audience. Embeddings are
+ * dropped since the chunk text changes; run add-embeddings.ts next.
+ *
+ * Usage:
+ *   bun scripts/rechunk.ts <input.jsonl> [output.jsonl]
+ *
+ * Sizes come from CHUNK_MAX_TOKENS, CHUNK_OVERLAP_TOKENS and CHUNK_MIN_TOKENS.
+ * If output is not provided, defaults to input filename with "-rechunked" suffix
+ */
+
+import { basename, dirname, join } from "node:path";
+import {
+  type ChunkRecord,
+  readChunkRecords,
+  writeChunkRecords,
+} from "@/lib/chunk-records";
+import { chunkBlocks, chunkerConfig } from "@/lib/chunker";
+
+async function main() {
+  const inputPath = process.argv[2];
+
+  if (!inputPath) {
+    console.error("Error: Input chunk file path is required");
+    console.error(
+      "\nUsage: bun scripts/rechunk.ts <input.jsonl> [output.jsonl]",
+    );
+    process.exit(1);
+  }
+
+  let outputPath = process.argv[3];
+  if (!outputPath) {
+    const dir = dirname(inputPath);
+    const base = basename(inputPath, ".jsonl");
+    outputPath = join(dir, `${base}-rechunked.jsonl`);
+  }
+
+  try {
+    console.log(`📖 Reading input from: ${inputPath}`);
+    const records = await readChunkRecords(inputPath);
+
+    // Runs of consecutive chunks for one document, section and audience
+    const runs: ChunkRecord[][] = [];
+    const runKey = (record: ChunkRecord) =>
+      JSON.stringify([
+        record.document.title,
+        record.document.sourceUrl,
+        record.section,
+        record.metadata?.audience,
+      ]);
+    for (const record of records) {
+      const last = runs.at(-1);
+      if (last && runKey(last[0]) === runKey(record)) {
+        last.push(record);
+      } else {
+        runs.push([record]);
+      }
+    }
+
+    const output: ChunkRecord[] = [];
+    for (const run of runs) {
+      const { document, metadata } = run[0];
+      const chunks = chunkBlocks(
+        run.map((record) => ({
+          sectionTitle: record.section ?? "",
+          text: record.content,
+          page: record.metadata?.page,
+        })),
+      );
+
+      for (const chunk of chunks) {
+        output.push({
+          document,
+          section: chunk.sectionTitle || undefined,
+          content: chunk.content,
+          metadata: { audience: metadata?.audience, page: chunk.page },
+        });
+      }
+    }
+
+    console.log(`\n💾 Writing re-chunked file to: ${outputPath}`);
+    await writeChunkRecords(outputPath, output);
+
+    console.log("\n✨ Success!");
+    console.log(
+      `   Chunks: ${records.length} → ${output.length} (max ${chunkerConfig.maxTokens} tokens, overlap ${chunkerConfig.overlapTokens})`,
+    );
+    console.log(
+      `\n📝 Next step: Run "bun scripts/add-embeddings.ts ${outputPath}" to add embeddings`,
+    );
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
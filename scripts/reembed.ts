@@ -0,0 +1,148 @@
+#!/usr/bin/env bun
+
+/**
+ * CLI script to re-embed the corpus into a new embedding model
+ *
+ * Builds a new embedding collection next to the existing ones, so the
+ * currently configured model keeps serving searches until you switch
+ * EMBEDDING_MODEL to the new one. Re-runnable: chunks that already have an
+ * embedding for the model are skipped, and texts already in the local
+ * embedding cache are not sent to the model again.
+ *
+ * Usage:
+ *   bun scripts/reembed.ts <model> [--provider <name>] [--batch <size>] [--retire <old-model>]
+ *
+ * Options:
+ *   --provider  Provider from the registry (default: EMBEDDING_PROVIDER / AI_PROVIDER)
+ *   --batch     Chunks embedded per request (default: 100)
+ *   --retire    Mark an old model's collection as retired once the new one is
+ *               ready. Only do this after EMBEDDING_MODEL points at the new
+ *               model; re-running for a finished collection is cheap.
+ *
+ * Models not in the known list need EMBEDDING_DIMENSIONS set.
+ */
+
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { chunkEmbeddings, textChunks } from "@/db/schema";
+import {
+  getEmbeddingDimensions,
+  getEmbeddingModel,
+  modelConfig,
+  parseProviderName,
+} from "@/lib/ai-provider";
+import { embedWithCache } from "@/lib/embedding-cache";
+import {
+  ensureEmbeddingIndex,
+  registerEmbeddingCollection,
+  setEmbeddingCollectionStatus,
+} from "@/lib/embedding-models";
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const USAGE =
+  "\nUsage: bun scripts/reembed.ts <model> [--provider <name>] [--batch <size>] [--retire <old-model>]";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const modelId = args[0];
+
+  if (!modelId || modelId.startsWith("--")) {
+    console.error("Error: Embedding model name is required");
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const batchOption = readOption(args, "--batch") ?? "100";
+  const batchSize = Number(batchOption);
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    console.error(
+      `Error: --batch must be a positive integer, got "${batchOption}"`,
+    );
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  try {
+    const provider = parseProviderName(
+      readOption(args, "--provider") ?? modelConfig.embeddingProvider,
+    );
+    const retire = readOption(args, "--retire");
+    const dimensions = getEmbeddingDimensions(modelId);
+    const model = getEmbeddingModel(provider, modelId);
+
+    console.log(
+      `📦 Building collection "${modelId}" (${provider}, ${dimensions} dimensions)`,
+    );
+    const collection = await registerEmbeddingCollection({
+      name: modelId,
+      provider,
+      dimensions,
+    });
+
+    // Chunks with no embedding for this model yet
+    const pending = await db
+      .select({ id: textChunks.id, content: textChunks.content })
+      .from(textChunks)
+      .leftJoin(
+        chunkEmbeddings,
+        and(
+          eq(chunkEmbeddings.chunkId, textChunks.id),
+          eq(chunkEmbeddings.model, modelId),
+        ),
+      )
+      .where(isNull(chunkEmbeddings.chunkId));
+
+    console.log(`   Found ${pending.length} chunks to embed`);
+
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize);
+      const { results } = await embedWithCache(
+        batch.map((chunk) => chunk.content),
+        modelId,
+        model,
+      );
+
+      await db
+        .insert(chunkEmbeddings)
+        .values(
+          batch.map((chunk, j) => ({
+            chunkId: chunk.id,
+            model: modelId,
+            embedding: results[j].embedding,
+            contentHash: results[j].contentHash,
+          })),
+        )
+        .onConflictDoNothing();
+
+      console.log(
+        `   ✓ Embedded ${Math.min(i + batchSize, pending.length)}/${pending.length}`,
+      );
+    }
+
+    console.log("\n🔎 Creating vector index...");
+    await ensureEmbeddingIndex(collection);
+    await setEmbeddingCollectionStatus(modelId, "ready");
+
+    if (retire) {
+      await setEmbeddingCollectionStatus(retire, "retired");
+      console.log(`   Retired collection "${retire}"`);
+    }
+
+    console.log("\n✨ Success!");
+    console.log(`   Collection "${modelId}" is ready`);
+    console.log(
+      `\n📝 Next step: set EMBEDDING_MODEL=${modelId} (and EMBEDDING_PROVIDER=${provider}) to serve searches from it`,
+    );
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
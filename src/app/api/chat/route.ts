@@ -1,7 +1,51 @@
-import { openai } from "@ai-sdk/openai";
-import { generateText } from "ai";
+import {
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  Output,
+  stepCountIs,
+  streamText,
+} from "ai";
+import { getChatModel } from "@/lib/ai-provider";
+import {
+  getMessageText,
+  type KioskUIMessage,
+  type Source,
+} from "@/lib/chat-message";
+import { extractCitations } from "@/lib/citations";
+import { condenseQuestion } from "@/lib/condense-question";
+import { type Contact, contactLookupTool } from "@/lib/contacts";
+import { detectCrisis } from "@/lib/crisis-detection";
+import { CRISIS_RESPONSES, type CrisisCategory } from "@/lib/crisis-resources";
 import { generateEmbedding } from "@/lib/generate-embeddings";
-import { searchSimilarChunks, type SearchResult } from "@/lib/vector-search";
+import {
+  CORPUS_LANGUAGE,
+  DEFAULT_LANGUAGE,
+  isLanguageCode,
+  LANGUAGES,
+  type LanguageCode,
+} from "@/lib/languages";
+import { redactMessages } from "@/lib/pii-redaction";
+import { getReranker, rerankChunks } from "@/lib/rerank";
+import {
+  rerankConfig,
+  retrievalConfig,
+  traceEnabled,
+} from "@/lib/retrieval-config";
+import {
+  buildRoleFilter,
+  buildRolePrompt,
+  getRoleProfile,
+  type UserRole,
+} from "@/lib/role-profiles";
+import { isStaffPin } from "@/lib/staff-access";
+import {
+  STRUCTURED_OUTPUT_INSTRUCTIONS,
+  structuredAnswerSchema,
+} from "@/lib/structured-answer";
+import { findTopic } from "@/lib/topics";
+import { translateQuery } from "@/lib/translate-query";
+import { hybridSearchChunks, type SearchResult } from "@/lib/vector-search";
 
 const BASE_SYSTEM_PROMPT = `You are a helpful resource navigator for families seeking social services and support programs. Your role is to answer questions using ONLY the reference documents provided below.
 
@@ -12,16 +56,22 @@ STRICT RULES:
 - NEVER provide personalized advice, medical advice, legal advice, or mental health counseling.
 - NEVER handle crisis situations — instead say: "For immediate help, please speak with a staff member right away."
 - Do NOT make up programs, phone numbers, addresses, or eligibility requirements.
-- Do NOT include citations or references in your response. The sources will be displayed separately.
-- Keep answers clear, concise, and easy to understand.
+- When you refer the user to a program, office or person, look up their contact details with the lookupContacts tool and give only the details it returns.
+- Cite the reference that supports each statement with its number in square brackets, e.g. "Lunch is served at noon [2]." Use separate markers for multiple references, e.g. [1][3]. Do NOT cite references you did not use.
+- When a reference lists the period it is in effect, say which school year or dates the policy applies to.
+- Keep answers clear and easy to understand, at the length given for the audience below.
 - If a question is outside the scope of available documents, politely direct the user to speak with staff.`;
 
-const STUDENT_SYSTEM_PROMPT = `${BASE_SYSTEM_PROMPT}
-
-IMPORTANT — LANGUAGE GUIDELINES:
-- You are speaking to an elementary-aged student. Use simple, friendly, and age-appropriate language.
-- Avoid jargon, acronyms, or complex vocabulary. Explain things the way a teacher would to a young child.
-- Use short sentences and a warm, encouraging tone.`;
+/**
+ * Describe when a document is in effect, e.g. "2023-07-01 to 2024-06-30"
+ */
+function formatEffectivePeriod(chunk: SearchResult): string {
+  const { effectiveFrom: from, effectiveTo: to } = chunk;
+  if (from && to) return `${from} to ${to}`;
+  if (from) return `from ${from}`;
+  if (to) return `until ${to}`;
+  return "";
+}
 
 function buildContextPrompt(chunks: SearchResult[]): string {
   if (chunks.length === 0) {
@@ -33,99 +83,289 @@ function buildContextPrompt(chunks: SearchResult[]): string {
       ? `Source: ${chunk.documentTitle} (${chunk.sourceUrl})`
       : `Source: ${chunk.documentTitle}`;
     const section = chunk.sectionTitle ? `Section: ${chunk.sectionTitle}` : "";
-    return `--- Reference ${i + 1} ---\n${source}\n${section}\n${
-      chunk.content
-    }`.trim();
+    const period = formatEffectivePeriod(chunk);
+    const effective = period ? `In effect: ${period}` : "";
+    const lines = [source, effective, section, chunk.content].filter(Boolean);
+    return `--- Reference ${i + 1} ---\n${lines.join("\n")}`;
   });
 
   return `REFERENCE DOCUMENTS:\n\n${sections.join("\n\n")}`;
 }
 
-export interface Source {
-  title: string;
-  sectionTitle: string | null;
-  url: string | null;
+/**
+ * Map cited reference numbers back to the chunks they point at
+ * Reference n is chunks[n - 1], matching the numbering in buildContextPrompt
+ */
+function formatSources(chunks: SearchResult[], references: number[]): Source[] {
+  return [...new Set(references)]
+    .filter((n) => n >= 1 && n <= chunks.length)
+    .sort((a, b) => a - b)
+    .map((n) => {
+      const chunk = chunks[n - 1];
+      return {
+        reference: n,
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        title: chunk.documentTitle,
+        sectionTitle: chunk.sectionTitle,
+        // PDF viewers open links with #page=N at that page
+        url:
+          chunk.sourceUrl && chunk.page
+            ? `${chunk.sourceUrl}#page=${chunk.page}`
+            : chunk.sourceUrl,
+      };
+    });
 }
 
-function formatSources(chunks: SearchResult[]): Source[] {
-  const seen = new Set<string>();
-  return chunks
-    .filter((chunk) => {
-      const key = chunk.documentId;
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    })
-    .map((chunk) => ({
-      title: chunk.documentTitle,
-      sectionTitle: chunk.sectionTitle,
-      url: chunk.sourceUrl,
-    }));
+/**
+ * Respond with the staff-approved escalation for a crisis category, in the
+ * visitor's language
+ * No retrieval or generation happens, so the wording is always the approved one
+ */
+function crisisResponse(
+  category: CrisisCategory,
+  role: UserRole,
+  language: LanguageCode,
+): Response {
+  const { studentMessage, message, ...resource } =
+    CRISIS_RESPONSES[language][category];
+
+  const stream = createUIMessageStream<KioskUIMessage>({
+    execute: ({ writer }) => {
+      writer.write({ type: "start" });
+      writer.write({
+        type: "data-crisis",
+        data: {
+          ...resource,
+          message: role === "student" ? studentMessage : message,
+        },
+      });
+      writer.write({ type: "finish" });
+    },
+  });
+
+  return createUIMessageStreamResponse({ stream });
 }
 
-const NO_RESULTS_MESSAGE =
-  "I don't have information about that in my resources. Please ask a staff member for help.";
+/**
+ * Instructions for answering in a language other than the documents'
+ */
+function buildLanguagePrompt(language: LanguageCode): string {
+  if (language === CORPUS_LANGUAGE) {
+    return "";
+  }
+
+  const { name } = LANGUAGES[language];
+  return `LANGUAGE:
+- The user writes in ${name}. Write the answer in ${name}, including the fixed replies in the rules above.
+- The reference documents are in ${LANGUAGES[CORPUS_LANGUAGE].name}. Translate what they say faithfully; do NOT add or change facts.
+- Keep citation markers, program names, phone numbers and addresses exactly as written.`;
+}
 
 export async function POST(req: Request) {
-  const { messages, userRole } = await req.json();
+  const body: {
+    messages: KioskUIMessage[];
+    userRole?: string;
+    staffPin?: string;
+    language?: string;
+    topic?: string;
+  } = await req.json();
+  // The role comes from the kiosk, so internal documents need the staff PIN
+  const profile = getRoleProfile(body.userRole, isStaffPin(body.staffPin));
+  const topic = findTopic(body.topic);
+  const requestedLanguage = isLanguageCode(body.language)
+    ? body.language
+    : undefined;
+
+  // Mask personal information before anything is embedded or sent to a model
+  const messages = redactMessages(body.messages);
 
   // Get the latest user message for retrieval
   const lastUserMessage = [...messages]
     .reverse()
-    .find((m: { role: string }) => m.role === "user");
+    .find((m) => m.role === "user");
 
   if (!lastUserMessage) {
     return new Response("No user message found", { status: 400 });
   }
 
   // Extract text from the user message (v6 AI SDK uses parts array)
-  const userText =
-    lastUserMessage.content ??
-    (lastUserMessage.parts
-      ?.filter((p: { type: string }) => p.type === "text")
-      .map((p: { text: string }) => p.text)
-      .join("") ||
-      "");
+  const userText = getMessageText(lastUserMessage);
 
   if (!userText) {
     return new Response("Empty user message", { status: 400 });
   }
 
-  // Generate embedding for the user's question
-  const queryEmbedding = await generateEmbedding(userText);
+  // Crises and sensitive situations go to people, never through RAG
+  // The patterns are in English, so a match here is usually an English
+  // message unless the visitor picked another language
+  const crisis = await detectCrisis(userText);
+  if (crisis) {
+    return crisisResponse(
+      crisis,
+      profile.role,
+      requestedLanguage ?? DEFAULT_LANGUAGE,
+    );
+  }
+
+  // Rewrite follow-ups ("what time does it end?") into a standalone query
+  const standaloneQuery = await condenseQuestion(messages, userText);
+
+  // Search the English documents with an English query, but answer in the
+  // user's language
+  const { language, query: searchQuery } = await translateQuery(
+    standaloneQuery,
+    requestedLanguage,
+  );
+
+  // Crisis patterns are in English, so check the translated query as well,
+  // whatever language the visitor picked
+  if (searchQuery !== userText) {
+    const translatedCrisis = await detectCrisis(searchQuery);
+    if (translatedCrisis) {
+      return crisisResponse(translatedCrisis, profile.role, language);
+    }
+  }
+
+  // Generate embedding for the standalone question
+  const queryEmbedding = await generateEmbedding(searchQuery);
 
-  // Search for relevant document chunks
-  const relevantChunks = await searchSimilarChunks(queryEmbedding, 5, 0.3);
+  // Search for relevant document chunks (lexical + vector), over-fetching
+  // candidates when a reranker will pick the best of them
+  const reranker = getReranker(rerankConfig.reranker);
+  const candidates = await hybridSearchChunks(searchQuery, queryEmbedding, {
+    ...retrievalConfig,
+    limit: reranker ? rerankConfig.candidateLimit : retrievalConfig.limit,
+    candidateLimit: reranker
+      ? Math.max(retrievalConfig.candidateLimit, rerankConfig.candidateLimit)
+      : retrievalConfig.candidateLimit,
+    // A picked topic scopes or boosts the search to its documents
+    scope: topic ? { chunks: topic.scope, mode: topic.mode } : undefined,
+    // Only the role's documents; chunks for the asker's role rank higher
+    filter: buildRoleFilter(profile),
+  });
 
-  // Format source metadata
-  const sources = formatSources(relevantChunks);
+  const relevantChunks = reranker
+    ? await rerankChunks(
+        reranker,
+        searchQuery,
+        candidates,
+        retrievalConfig.limit,
+      )
+    : candidates;
 
   // Build context from retrieved chunks (or empty-results prompt)
   const contextPrompt = buildContextPrompt(relevantChunks);
 
-  // Select prompt based on user role
-  const basePrompt =
-    userRole === "student" ? STUDENT_SYSTEM_PROMPT : BASE_SYSTEM_PROMPT;
-
-  // If no relevant chunks found, instruct the model to return the fallback
-  const systemPrompt =
-    relevantChunks.length === 0
-      ? `${basePrompt}\n\n${contextPrompt}\n\nYou must respond with: "${NO_RESULTS_MESSAGE}"`
-      : `${basePrompt}\n\n${contextPrompt}`;
+  const systemPrompt = [
+    BASE_SYSTEM_PROMPT,
+    buildRolePrompt(profile),
+    buildLanguagePrompt(language),
+    STRUCTURED_OUTPUT_INSTRUCTIONS,
+    contextPrompt,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
 
-  const result = await generateText({
-    model: openai("gpt-5-mini"),
-    system: systemPrompt,
-    messages,
+  // Prior answers live in data parts, so pass their text back to the model
+  const modelMessages = await convertToModelMessages<KioskUIMessage>(messages, {
+    convertDataPart: (part) => {
+      if (part.type === "data-answer") {
+        return { type: "text", text: part.data.markdown };
+      }
+      if (part.type === "data-crisis") {
+        return { type: "text", text: part.data.message };
+      }
+      return undefined;
+    },
   });
 
-  const isFallback =
-    relevantChunks.length === 0 ||
-    result.text.includes("I don't have information about that") ||
-    result.text.includes("speak with a staff member");
+  const stream = createUIMessageStream<KioskUIMessage>({
+    execute: async ({ writer }) => {
+      writer.write({ type: "start" });
+
+      if (traceEnabled) {
+        writer.write({
+          type: "data-trace",
+          data: {
+            originalQuery: userText,
+            standaloneQuery,
+            searchQuery,
+            language,
+          },
+        });
+      }
+
+      const answerId = crypto.randomUUID();
+
+      // If no relevant chunks found, return the fallback without the model
+      if (relevantChunks.length === 0) {
+        writer.write({
+          type: "data-answer",
+          id: answerId,
+          data: {
+            markdown: LANGUAGES[language].noResultsMessage,
+            status: { answered: false, grounded: false, escalate: true },
+            sources: [],
+            contacts: [],
+            language,
+          },
+        });
+        writer.write({ type: "finish" });
+        return;
+      }
 
-  return Response.json({
-    message: result.text,
-    sources: isFallback ? [] : sources,
+      // Contacts the model looked up, so the answer can only show real ones
+      const lookedUpContacts = new Map<string, Contact>();
+
+      const result = streamText({
+        model: getChatModel(),
+        output: Output.object({ schema: structuredAnswerSchema }),
+        system: systemPrompt,
+        messages: modelMessages,
+        tools: { lookupContacts: contactLookupTool(lookedUpContacts) },
+        // Leave room for contact lookups before the final answer
+        stopWhen: stepCountIs(4),
+        // Stop generating when the kiosk aborts the request ("Start Over")
+        abortSignal: req.signal,
+      });
+
+      // Stream the answer markdown as it grows, replacing the same data part
+      let markdown = "";
+      for await (const partial of result.partialOutputStream) {
+        if (partial.answer && partial.answer !== markdown) {
+          markdown = partial.answer;
+          writer.write({
+            type: "data-answer",
+            id: answerId,
+            data: { markdown, sources: [], contacts: [], language },
+          });
+        }
+      }
+
+      const { answer, answered, grounded, escalate, references, contacts } =
+        await result.output;
+
+      // Only the references the answer actually cites are shown as sources
+      const cited = [...references, ...extractCitations(answer)];
+
+      writer.write({
+        type: "data-answer",
+        id: answerId,
+        data: {
+          markdown: answer,
+          status: { answered, grounded, escalate },
+          sources:
+            answered && grounded ? formatSources(relevantChunks, cited) : [],
+          contacts: [...new Set(contacts)].flatMap(
+            (id) => lookedUpContacts.get(id) ?? [],
+          ),
+          language,
+        },
+      });
+      writer.write({ type: "finish" });
+    },
   });
+
+  return createUIMessageStreamResponse({ stream });
 }
@@ -0,0 +1,37 @@
+import { CORPUS_LANGUAGE, isLanguageCode } from "@/lib/languages";
+import { getSpeechSynthesizer, speechConfig } from "@/lib/speech-synthesis";
+
+/**
+ * Synthesize one sentence of an answer for the "Read to me" control
+ * Only used when READ_ALOUD=server; browser mode speaks on the kiosk itself.
+ * TTS_SYNTHESIZER picks the backend
+ */
+export async function POST(req: Request) {
+  if (speechConfig.mode !== "server") {
+    return new Response("Server speech is turned off", { status: 404 });
+  }
+
+  const { text, language }: { text?: string; language?: string } =
+    await req.json();
+
+  if (!text?.trim()) {
+    return new Response("No text found", { status: 400 });
+  }
+
+  if (text.length > speechConfig.maxTextLength) {
+    return new Response("Text is too long", { status: 413 });
+  }
+
+  try {
+    const synthesizer = getSpeechSynthesizer(speechConfig.synthesizer);
+    const { audio, mediaType } = await synthesizer.synthesize(text, {
+      language: isLanguageCode(language) ? language : CORPUS_LANGUAGE,
+    });
+    return new Response(new Uint8Array(audio), {
+      headers: { "Content-Type": mediaType },
+    });
+  } catch (error) {
+    console.error("Failed to synthesize speech:", error);
+    return new Response("Speech synthesis failed", { status: 502 });
+  }
+}
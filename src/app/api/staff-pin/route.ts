@@ -0,0 +1,20 @@
+import { isStaffPin, staffPinConfigured } from "@/lib/staff-access";
+
+/**
+ * Check the staff PIN before the kiosk enters staff mode
+ * The chat route checks it again on every request; this only lets the kiosk
+ * tell staff about a mistyped PIN
+ */
+export async function POST(req: Request) {
+  if (!staffPinConfigured) {
+    return new Response("Staff PIN is not configured", { status: 404 });
+  }
+
+  const { pin }: { pin?: string } = await req.json();
+
+  if (!isStaffPin(pin)) {
+    return new Response("Wrong staff PIN", { status: 403 });
+  }
+
+  return new Response(null, { status: 204 });
+}
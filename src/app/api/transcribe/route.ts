@@ -0,0 +1,37 @@
+import { isLanguageCode } from "@/lib/languages";
+import { getTranscriber, transcriptionConfig } from "@/lib/transcription";
+
+/**
+ * Transcribe a recorded question
+ * Expects multipart form data with an `audio` file and an optional `language`;
+ * the transcript goes back to the kiosk input for the user to confirm
+ */
+export async function POST(req: Request) {
+  const transcriber = getTranscriber(transcriptionConfig.transcriber);
+  if (!transcriber) {
+    return new Response("Speech input is turned off", { status: 404 });
+  }
+
+  const form = await req.formData();
+  const audio = form.get("audio");
+  const language = form.get("language");
+
+  if (!(audio instanceof File) || audio.size === 0) {
+    return new Response("No audio found", { status: 400 });
+  }
+
+  if (audio.size > transcriptionConfig.maxAudioBytes) {
+    return new Response("Recording is too long", { status: 413 });
+  }
+
+  try {
+    const text = await transcriber.transcribe(
+      new Uint8Array(await audio.arrayBuffer()),
+      { language: isLanguageCode(language) ? language : undefined },
+    );
+    return Response.json({ text });
+  } catch (error) {
+    console.error("Failed to transcribe audio:", error);
+    return new Response("Transcription failed", { status: 502 });
+  }
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono, Inter, Schoolbell } from "next/font/google";
+import { DEFAULT_LANGUAGE } from "@/lib/languages";
 import "./globals.css";
 
 const inter = Inter({ subsets: ["latin"], variable: "--font-sans" });
@@ -31,7 +32,8 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en" className={inter.variable}>
+    // KioskChat updates lang when a visitor picks another language
+    <html lang={DEFAULT_LANGUAGE} className={inter.variable}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} ${schoolbell.variable} antialiased`}
       >
@@ -1,5 +1,6 @@
 import { KioskChat } from "@/components/kiosk-chat";
+import { kioskConfig } from "@/lib/kiosk-config";
 
 export default function Page() {
-  return <KioskChat />;
+  return <KioskChat config={kioskConfig} />;
 }
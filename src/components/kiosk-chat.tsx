@@ -1,48 +1,97 @@
 "use client"
 
+import { useChat } from "@ai-sdk/react"
+import { DefaultChatTransport } from "ai"
 import { useCallback, useEffect, useRef, useState } from "react"
 import Markdown from "react-markdown"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import Header from "@/components/layout/header"
+import { SpeechInputButton } from "@/components/speech-input-button"
+import { type ReadAloudState, useReadAloud } from "@/hooks/use-read-aloud"
 import { Textarea } from "@/components/ui/textarea"
-import { PersonStandingIcon } from "lucide-react"
-
-interface Source {
-  title: string
-  sectionTitle: string | null
-  url: string | null
-}
-
-interface ChatMessage {
-  id: string
-  role: "user" | "assistant"
-  content: string
-  sources?: Source[]
-}
+import {
+  ClockIcon,
+  MailIcon,
+  MapPinIcon,
+  PersonStandingIcon,
+  PhoneIcon,
+  SquareIcon,
+  TriangleAlertIcon,
+  Volume2Icon,
+} from "lucide-react"
+import {
+  type CrisisData,
+  getMessageText,
+  type KioskUIMessage,
+} from "@/lib/chat-message"
+import { linkCitations, parseCitationHref } from "@/lib/citations"
+import { getUIMessages, type UIMessages } from "@/lib/i18n"
+import type { Contact } from "@/lib/contacts"
+import type { KioskConfig } from "@/lib/kiosk-config"
+import type { UserRole } from "@/lib/role-profiles"
+import { TOPICS, type TopicId } from "@/lib/topics"
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_CODES,
+  LANGUAGES,
+  type LanguageCode,
+} from "@/lib/languages"
 
 const INACTIVITY_TIMEOUT_MS = 2 * 60 * 1000 // 2 minutes
 
-export function KioskChat() {
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+const chatTransport = new DefaultChatTransport<KioskUIMessage>({
+  api: "/api/chat",
+})
+
+export function KioskChat({ config }: { config: KioskConfig }) {
+  const { messages, setMessages, sendMessage, status, error, stop } =
+    useChat<KioskUIMessage>({ transport: chatTransport })
   const [input, setInput] = useState("")
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState<Error | null>(null)
-  const [selectedTopic, setSelectedTopic] = useState<string | null>(null)
-  const [selectedRole, setSelectedRole] = useState<string | null>(null)
+  const [speechError, setSpeechError] = useState<string | null>(null)
+  const [selectedTopic, setSelectedTopic] = useState<TopicId | null>(null)
+  const [selectedRole, setSelectedRole] = useState<UserRole | null>(null)
+  // Checked by the server on every request; internal documents need it
+  const [staffPin, setStaffPin] = useState<string | null>(null)
+  const [enteringStaffPin, setEnteringStaffPin] = useState(false)
+  // Null until the visitor picks a language; the server detects it until then
+  const [selectedLanguage, setSelectedLanguage] =
+    useState<LanguageCode | null>(null)
+  const language = selectedLanguage ?? DEFAULT_LANGUAGE
+  const t = getUIMessages(language)
+  const readAloud = useReadAloud(config.readAloud)
+  const { stop: stopReading } = readAloud
+  const autoReadIds = useRef(new Set<string>())
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inactivityTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
 
+  const isLoading = status === "submitted" || status === "streaming"
+  const lastMessage = messages[messages.length - 1]
+  // Keep the typing indicator up until the first answer token arrives
+  const isWaitingForAnswer =
+    status === "submitted" ||
+    (status === "streaming" &&
+      lastMessage?.role === "assistant" &&
+      !getMessageText(lastMessage))
+
   const resetSession = useCallback(() => {
+    // Abort any in-flight answer before clearing the conversation
+    stop()
+    stopReading()
     setMessages([])
     setInput("")
+    setSpeechError(null)
     setSelectedRole(null)
+    setStaffPin(null)
+    setEnteringStaffPin(false)
+    setSelectedTopic(null)
+    setSelectedLanguage(null)
     if (inactivityTimer.current) {
       clearTimeout(inactivityTimer.current)
       inactivityTimer.current = null
     }
-  }, [setMessages])
+  }, [setMessages, stop, stopReading])
 
   // Reset inactivity timer on any interaction
   const resetInactivityTimer = useCallback(() => {
@@ -64,6 +113,35 @@ export function KioskChat() {
     }
   }, [messages, resetInactivityTimer])
 
+  // Keep <html lang> in sync for screen readers and browser translation
+  useEffect(() => {
+    document.documentElement.lang = language
+  }, [language])
+
+  // Read finished answers aloud in student mode when the kiosk enables it
+  useEffect(() => {
+    if (
+      !config.autoReadAloudForStudents ||
+      selectedRole !== "student" ||
+      status !== "ready" ||
+      lastMessage?.role !== "assistant" ||
+      autoReadIds.current.has(lastMessage.id)
+    ) {
+      return
+    }
+    const answer = lastMessage.parts.find((part) => part.type === "data-answer")
+    if (!answer?.data.status) return
+
+    autoReadIds.current.add(lastMessage.id)
+    readAloud.play(lastMessage.id, answer.data.markdown, answer.data.language)
+  }, [
+    config.autoReadAloudForStudents,
+    selectedRole,
+    status,
+    lastMessage,
+    readAloud.play,
+  ])
+
   // Auto-scroll to bottom when messages update
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
@@ -76,55 +154,38 @@ export function KioskChat() {
     }
   }, [isLoading, messages.length])
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    const trimmed = input.trim()
+  const askQuestion = async (text: string) => {
+    const trimmed = text.trim()
     if (!trimmed || isLoading) return
 
-    const userMessage: ChatMessage = {
-      id: crypto.randomUUID(),
-      role: "user",
-      content: trimmed,
-    }
-
-    setMessages((prev) => [...prev, userMessage])
     setInput("")
-    setIsLoading(true)
-    setError(null)
+    setSpeechError(null)
+    stopReading()
     resetInactivityTimer()
 
-    try {
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
+    await sendMessage(
+      { text: trimmed },
+      {
+        body: {
           userRole: selectedRole,
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error("Failed to get response")
-      }
-
-      const data = await response.json()
+          staffPin,
+          language: selectedLanguage,
+          topic: selectedTopic,
+        },
+      },
+    )
+  }
 
-      const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        content: data.message,
-        sources: data.sources,
-      }
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await askQuestion(input)
+  }
 
-      setMessages((prev) => [...prev, assistantMessage])
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error("Unknown error"))
-    } finally {
-      setIsLoading(false)
-    }
+  // Spoken questions land in the input so the user can check them first
+  const handleTranscript = (text: string) => {
+    setInput(text)
+    resetInactivityTimer()
+    inputRef.current?.focus()
   }
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -136,28 +197,64 @@ export function KioskChat() {
 
   return (
     <div className="flex min-h-dvh flex-col bg-background">
-      <Header />
+      <Header t={t} />
 
       {/* Messages area */}
       <main className="flex-1 overflow-y-auto px-4 py-6 md:px-8">
         <div className="mx-auto max-w-2xl space-y-4">
-          {messages.length === 0 && !selectedRole && (
-            <div className="flex flex-1 items-center justify-center py-16 font-[Schoolbell]">
+          {enteringStaffPin && (
+            <StaffPinForm
+              onVerified={(pin) => {
+                setStaffPin(pin)
+                setEnteringStaffPin(false)
+                setSelectedRole("staff")
+              }}
+              onBack={() => setEnteringStaffPin(false)}
+              t={t}
+            />
+          )}
+          {messages.length === 0 && !selectedRole && !enteringStaffPin && (
+            <div className="flex flex-1 flex-col items-center justify-center gap-8 py-16 font-[Schoolbell]">
+              {/* Language picker */}
+              <fieldset className="flex flex-wrap items-center justify-center gap-3">
+                <legend className="sr-only">{t.language.label}</legend>
+                {LANGUAGE_CODES.map((code) => (
+                  <button
+                    key={code}
+                    type="button"
+                    aria-pressed={language === code}
+                    lang={code}
+                    onClick={() => setSelectedLanguage(code)}
+                    className={`cursor-pointer rounded-full px-6 py-2 text-2xl font-bold shadow transition-colors ${
+                      language === code
+                        ? "bg-green-700 text-white"
+                        : "bg-yellow-50 text-green-800 ring-1 ring-yellow-400 hover:bg-yellow-100"
+                    }`}
+                  >
+                    {LANGUAGES[code].nativeName}
+                  </button>
+                ))}
+              </fieldset>
+
               <div className="grid grid-cols-2 gap-6">
                 {/* Yellow — top left */}
                 <div className="flex size-56 md:size-72 flex-col items-center justify-center bg-yellow-400 p-6 text-green-700 shadow-lg">
                   <p className="text-3xl md:text-4xl font-bold text-center leading-9">
-                    To Get Started Select Your Role
+                    {t.roles.prompt}
                   </p>
                 </div>
 
                 {/* Red — top right */}
                 <button
-                  onClick={() => setSelectedRole("staff")}
+                  onClick={() =>
+                    config.staffPin
+                      ? setEnteringStaffPin(true)
+                      : setSelectedRole("staff")
+                  }
                   className="flex size-56 md:size-72 cursor-pointer flex-col items-center justify-center bg-red-700 p-6 text-white shadow-lg transition-transform hover:scale-105"
                 >
                   <div className="text-3xl md:text-4xl font-bold flex flex-col items-center gap-2">
-                    Staff Member
+                    {t.roles.staff}
                     <PersonStandingIcon className="size-20 md:size-28 text-blue-700" />
                   </div>{" "}
                 </button>
@@ -168,7 +265,7 @@ export function KioskChat() {
                   className="flex size-56 md:size-72 -rotate-10 cursor-pointer flex-col items-center justify-center bg-blue-700 p-6 text-white shadow-lg transition-transform hover:scale-105"
                 >
                   <div className="text-3xl md:text-4xl font-bold flex flex-col items-center gap-2">
-                    Student
+                    {t.roles.student}
                     <PersonStandingIcon className="size-20 md:size-28 text-red-700" />
                   </div>{" "}
                 </button>
@@ -179,7 +276,7 @@ export function KioskChat() {
                   className="flex size-56 md:size-72 cursor-pointer flex-col items-center justify-center bg-green-700 p-6 text-white shadow-lg transition-transform hover:scale-105"
                 >
                   <div className="text-3xl md:text-4xl font-bold flex flex-col items-center gap-2">
-                    Parent
+                    {t.roles.parent}
                     <PersonStandingIcon className="size-20 md:size-28 text-yellow-400" />
                   </div>
                 </button>
@@ -188,30 +285,49 @@ export function KioskChat() {
           )}
           {messages.length === 0 && selectedRole && (
             <div className="flex flex-col items-center justify-center bg-yellow-50 p-8 mt-10 rounded-xl border border-yellow-400">
-              <p className="text-2xl font-bold text-red-700 pb-8">Notice</p>
-              <p className="text-lg pb-6">
-                The Digital Family Resource Navigator is not intended to replace
-                staff, assist with complex questions, or provide personalized
-                advice.
-              </p>
-              <p className="text-lg pb-6">
-                Do not include any personal information in your questions, such
-                as your name, address, phone number, email address, or any other
-                identifying information.
-              </p>
-              <p className="text-lg">
-                We do not store any conversation history, but personal
-                information is not removed from the model, which may be managed
-                by a third-party.
+              <p className="text-2xl font-bold text-red-700 pb-8">
+                {t.notice.title}
               </p>
+              <p className="text-lg pb-6">{t.notice.scope}</p>
+              <p className="text-lg pb-6">{t.notice.personalInfo}</p>
+              <p className="text-lg">{t.notice.redaction}</p>
             </div>
           )}
+          {messages.length === 0 && selectedRole && (
+            <TopicPicker
+              selectedTopic={selectedTopic}
+              onSelect={(topic) => {
+                setSelectedTopic(topic)
+                resetInactivityTimer()
+              }}
+              onAsk={askQuestion}
+              t={t}
+            />
+          )}
 
-          {messages.map((message) => (
-            <MessageBubble key={message.id} message={message} />
-          ))}
-
-          {isLoading && messages[messages.length - 1]?.role === "user" && (
+          {messages
+            .filter((m) => m.role === "user" || getMessageText(m))
+            .map((message) => (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                t={t}
+                reading={
+                  readAloud.reading?.messageId === message.id
+                    ? readAloud.reading
+                    : null
+                }
+                onReadAloud={
+                  config.readAloud === "off"
+                    ? undefined
+                    : (markdown, answerLanguage) =>
+                        readAloud.play(message.id, markdown, answerLanguage)
+                }
+                onStopReading={stopReading}
+              />
+            ))}
+
+          {isWaitingForAnswer && (
             <div className="flex justify-start">
               <div className="rounded-2xl bg-muted px-5 py-4">
                 <div className="flex items-center gap-1.5">
@@ -226,10 +342,7 @@ export function KioskChat() {
           {error && (
             <Card className="border-destructive/50 bg-destructive/5">
               <CardContent>
-                <p className="text-base text-destructive">
-                  Something went wrong. Please try again or ask a staff member
-                  for help.
-                </p>
+                <p className="text-base text-destructive">{t.chat.error}</p>
               </CardContent>
             </Card>
           )}
@@ -241,32 +354,71 @@ export function KioskChat() {
       {selectedRole && (
         <>
           <footer className="shrink-0 border-t bg-card px-4 py-4 md:px-8">
+            {selectedTopic && messages.length > 0 && (
+              <div className="mx-auto mb-3 flex max-w-2xl items-center gap-2 text-base">
+                <span className="text-gray-600">{t.topics.current}</span>
+                <span className="font-bold text-green-800">
+                  {t.topics.items[selectedTopic].label}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setSelectedTopic(null)}
+                  className="cursor-pointer rounded-full px-2 text-sm text-gray-600 underline underline-offset-2 hover:text-foreground"
+                >
+                  {t.topics.clear}
+                </button>
+              </div>
+            )}
+            {speechError && (
+              <p
+                role="alert"
+                className="mx-auto mb-3 max-w-2xl text-base text-destructive"
+              >
+                {speechError}
+              </p>
+            )}
             <div className="mx-auto flex max-w-2xl items-center gap-3">
               <form
                 onSubmit={handleSubmit}
                 className="flex flex-1 items-center gap-3"
               >
                 <label htmlFor="chat-input" className="sr-only">
-                  Question input
+                  {t.chat.inputLabel}
                 </label>
                 <Textarea
                   id="chat-input"
                   ref={inputRef}
                   value={input}
-                  onChange={(e) => setInput(e.target.value)}
+                  onChange={(e) => {
+                    setInput(e.target.value)
+                    setSpeechError(null)
+                  }}
                   onKeyDown={handleKeyDown}
-                  placeholder="Type your question here..."
+                  placeholder={t.chat.placeholder}
                   rows={1}
                   disabled={isLoading}
                   className="flex-1 resize-none rounded-xl border border-input bg-background px-4 py-4 text-lg placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50 md:text-xl"
                 />
+                {config.speechInput && (
+                  <SpeechInputButton
+                    language={selectedLanguage}
+                    disabled={isLoading}
+                    onStart={() => {
+                      setSpeechError(null)
+                      resetInactivityTimer()
+                    }}
+                    onTranscript={handleTranscript}
+                    onError={setSpeechError}
+                    t={t}
+                  />
+                )}
                 <Button
                   type="submit"
                   size="lg"
                   disabled={isLoading || !input.trim()}
                   className="h-12 px-6 text-lg font-bold font-[Schoolbell] bg-green-700 disabled:opacity-50"
                 >
-                  Ask
+                  {t.chat.ask}
                 </Button>
               </form>
               <Button
@@ -276,7 +428,7 @@ export function KioskChat() {
                 onClick={resetSession}
                 className="h-12 shrink-0 px-6 text-lg font-bold font-[Schoolbell] bg-yellow-400 text-green-800 disabled:opacity-50 hover:bg-yellow-300 hover:text-green-700"
               >
-                Start Over
+                {t.chat.startOver}
               </Button>
             </div>
           </footer>
@@ -286,10 +438,35 @@ export function KioskChat() {
   )
 }
 
-function MessageBubble({ message }: { message: ChatMessage }) {
+function MessageBubble({
+  message,
+  t,
+  reading,
+  onReadAloud,
+  onStopReading,
+}: {
+  message: KioskUIMessage
+  t: UIMessages
+  reading: ReadAloudState | null
+  // Answers are read in the language they were written in
+  onReadAloud?: (markdown: string, language: LanguageCode) => void
+  onStopReading: () => void
+}) {
   const isUser = message.role === "user"
-  const sources = message.sources
-  const text = message.content
+  const answer = message.parts.find((part) => part.type === "data-answer")
+  const status = answer?.data.status
+  // Sources are only meaningful for answers grounded in the documents
+  const sources =
+    status?.answered && status.grounded ? answer?.data.sources : undefined
+  const contacts = answer?.data.contacts
+  const trace = message.parts.find((part) => part.type === "data-trace")?.data
+  const text = getMessageText(message)
+  const [highlightedRef, setHighlightedRef] = useState<number | null>(null)
+  const crisis = message.parts.find((part) => part.type === "data-crisis")
+
+  if (crisis) {
+    return <CrisisNotice crisis={crisis.data} />
+  }
 
   return (
     <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
@@ -304,19 +481,96 @@ function MessageBubble({ message }: { message: ChatMessage }) {
           <p className="whitespace-pre-wrap text-base leading-relaxed md:text-lg">
             {text}
           </p>
+        ) : reading ? (
+          // Plain text while reading, with the current sentence highlighted
+          <p className="text-base leading-relaxed md:text-lg">
+            {reading.sentences.slice(0, reading.index).join(" ")}{" "}
+            <mark className="rounded bg-yellow-200 px-0.5 text-foreground">
+              {reading.sentences[reading.index]}
+            </mark>{" "}
+            {reading.sentences.slice(reading.index + 1).join(" ")}
+          </p>
         ) : (
           <div className="markdown-content text-base leading-relaxed md:text-lg">
-            <Markdown>{text}</Markdown>
+            <Markdown
+              components={{
+                a: ({ href, children }) => {
+                  const reference = parseCitationHref(href)
+                  if (reference === null) {
+                    return (
+                      <a href={href} target="_blank" rel="noopener noreferrer">
+                        {children}
+                      </a>
+                    )
+                  }
+                  return (
+                    <CitationChip
+                      reference={reference}
+                      active={highlightedRef === reference}
+                      onSelect={setHighlightedRef}
+                      label={t.chat.showSource(reference)}
+                    />
+                  )
+                },
+              }}
+            >
+              {linkCitations(text)}
+            </Markdown>
           </div>
         )}
 
+        {/* Read to me (once the answer is complete) */}
+        {!isUser && onReadAloud && answer?.data.status && (
+          <button
+            type="button"
+            onClick={() =>
+              reading
+                ? onStopReading()
+                : onReadAloud(text, answer.data.language)
+            }
+            aria-pressed={Boolean(reading)}
+            className="mt-3 inline-flex cursor-pointer items-center gap-1.5 rounded-full bg-blue-700 px-3 py-1 text-sm font-bold text-white transition-colors hover:bg-blue-600"
+          >
+            {reading ? (
+              <SquareIcon className="size-4" />
+            ) : (
+              <Volume2Icon className="size-4" />
+            )}
+            {reading ? t.readAloud.stop : t.readAloud.start}
+          </button>
+        )}
+
+        {/* Staff referral */}
+        {!isUser && status?.escalate && (
+          <p className="mt-3 rounded-lg bg-yellow-50 px-3 py-2 text-sm font-medium text-red-700 ring-1 ring-yellow-400">
+            {t.chat.staffReferral}
+          </p>
+        )}
+
+        {/* Directory contacts the answer refers to */}
+        {!isUser && contacts && contacts.length > 0 && (
+          <ContactCards contacts={contacts} t={t} />
+        )}
+
         {/* Sources */}
         {!isUser && sources && sources.length > 0 && (
           <div className="mt-3 border-t border-foreground/10 pt-3">
-            <p className="mb-1.5 text-sm font-medium text-gray-600">Source:</p>
+            <p className="mb-1.5 text-sm font-medium text-gray-600">
+              {t.chat.sources}
+            </p>
             <ul className="space-y-1">
-              {sources.map((source, i) => (
-                <li key={`${source.title}-${i}`} className="text-sm">
+              {sources.map((source) => (
+                <li
+                  key={source.chunkId}
+                  className={`-mx-1.5 rounded-md px-1.5 py-0.5 text-sm transition-colors ${
+                    highlightedRef === source.reference
+                      ? "bg-yellow-100 ring-1 ring-yellow-400"
+                      : ""
+                  }`}
+                >
+                  <span className="mr-1.5 font-bold text-green-700">
+                    [{source.reference}]
+                  </span>
                   {source.url ? (
                     <a
                       href={source.url}
@@ -342,7 +596,318 @@ function MessageBubble({ message }: { message: ChatMessage }) {
             </ul>
           </div>
         )}
+
+        {/* Retrieval trace (CHAT_DEBUG only) */}
+        {!isUser && trace && (
+          <details className="mt-3 border-t border-foreground/10 pt-3 text-sm text-gray-600">
+            <summary className="cursor-pointer font-medium">Debug trace</summary>
+            <p className="mt-1.5">Original question: {trace.originalQuery}</p>
+            <p>Standalone question: {trace.standaloneQuery}</p>
+            <p>Search query: {trace.searchQuery}</p>
+            <p>Answer language: {trace.language}</p>
+          </details>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const TOPIC_COLORS = [
+  "bg-yellow-400 text-green-800",
+  "bg-red-700 text-white",
+  "bg-blue-700 text-white",
+  "bg-green-700 text-white",
+]
+
+function TopicPicker({
+  selectedTopic,
+  onSelect,
+  onAsk,
+  t,
+}: {
+  selectedTopic: TopicId | null
+  onSelect: (topic: TopicId | null) => void
+  onAsk: (question: string) => void
+  t: UIMessages
+}) {
+  return (
+    <div className="font-[Schoolbell]">
+      <p className="mb-4 text-center text-2xl font-bold text-green-800">
+        {t.topics.prompt}
+      </p>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+        {TOPICS.map((topic, i) => (
+          <button
+            key={topic.id}
+            type="button"
+            onClick={() =>
+              onSelect(selectedTopic === topic.id ? null : topic.id)
+            }
+            aria-pressed={selectedTopic === topic.id}
+            className={`flex min-h-24 cursor-pointer items-center justify-center p-4 text-center text-2xl font-bold shadow-lg transition-transform hover:scale-105 ${
+              TOPIC_COLORS[i % TOPIC_COLORS.length]
+            } ${selectedTopic === topic.id ? "ring-4 ring-offset-2 ring-green-800" : ""}`}
+          >
+            {t.topics.items[topic.id].label}
+          </button>
+        ))}
       </div>
+
+      {selectedTopic && (
+        <div className="mt-6">
+          <p className="mb-2 text-xl font-bold text-red-700">
+            {t.topics.starters}
+          </p>
+          <ul className="space-y-2 font-sans">
+            {t.topics.items[selectedTopic].questions.map((question) => (
+              <li key={question}>
+                <button
+                  type="button"
+                  onClick={() => onAsk(question)}
+                  className="w-full cursor-pointer rounded-xl bg-yellow-50 px-4 py-3 text-left text-lg ring-1 ring-yellow-400 transition-colors hover:bg-yellow-100"
+                >
+                  {question}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   )
 }
+
+function StaffPinForm({
+  onVerified,
+  onBack,
+  t,
+}: {
+  onVerified: (pin: string) => void
+  onBack: () => void
+  t: UIMessages
+}) {
+  const [pin, setPin] = useState("")
+  const [invalid, setInvalid] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const res = await fetch("/api/staff-pin", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ pin }),
+    }).catch(() => null)
+    if (res?.ok) {
+      onVerified(pin)
+    } else {
+      setPin("")
+      setInvalid(true)
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mx-auto mt-16 flex max-w-sm flex-col gap-4 font-[Schoolbell]"
+    >
+      <label
+        htmlFor="staff-pin"
+        className="text-center text-3xl font-bold text-red-700"
+      >
+        {t.staffPin.label}
+      </label>
+      <input
+        id="staff-pin"
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        value={pin}
+        onChange={(e) => {
+          setPin(e.target.value)
+          setInvalid(false)
+        }}
+        className="rounded-xl border border-input bg-background px-4 py-4 text-center font-sans text-2xl tracking-widest focus:outline-none focus:ring-2 focus:ring-ring"
+      />
+      {invalid && (
+        <p
+          role="alert"
+          className="text-center font-sans text-lg text-destructive"
+        >
+          {t.staffPin.invalid}
+        </p>
+      )}
+      <div className="flex gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          size="lg"
+          onClick={onBack}
+          className="h-12 flex-1 text-lg font-bold bg-yellow-400 text-green-800 hover:bg-yellow-300 hover:text-green-700"
+        >
+          {t.staffPin.back}
+        </Button>
+        <Button
+          type="submit"
+          size="lg"
+          disabled={!pin.trim()}
+          className="h-12 flex-1 text-lg font-bold bg-green-700 disabled:opacity-50"
+        >
+          {t.staffPin.submit}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function CrisisNotice({ crisis }: { crisis: CrisisData }) {
+  return (
+    <div
+      role="alert"
+      className="rounded-2xl border-4 border-red-700 bg-red-50 px-6 py-5 shadow-lg"
+    >
+      <p className="flex items-center gap-2 text-2xl font-bold text-red-700">
+        <TriangleAlertIcon className="size-7 shrink-0" />
+        {crisis.title}
+      </p>
+      <p className="mt-3 text-lg leading-relaxed md:text-xl">
+        {crisis.message}
+      </p>
+      <ul className="mt-4 space-y-3">
+        {crisis.contacts.map((contact) => (
+          <li
+            key={contact.name}
+            className="rounded-xl bg-white px-4 py-3 ring-1 ring-red-200"
+          >
+            <p className="font-bold">{contact.name}</p>
+            {contact.href ? (
+              <a
+                href={contact.href}
+                className="flex items-center gap-2 text-lg font-bold text-red-700 underline underline-offset-2"
+              >
+                <PhoneIcon className="size-5 shrink-0" />
+                {contact.action}
+              </a>
+            ) : (
+              <p className="text-lg font-bold text-red-700">{contact.action}</p>
+            )}
+            <p className="text-sm text-gray-600">{contact.description}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function ContactCards({
+  contacts,
+  t,
+}: {
+  contacts: Contact[]
+  t: UIMessages
+}) {
+  return (
+    <div className="mt-3 border-t border-foreground/10 pt-3">
+      <p className="mb-1.5 text-sm font-medium text-gray-600">
+        {t.contacts.heading}
+      </p>
+      <ul className="space-y-2">
+        {contacts.map((contact) => (
+          <li
+            key={contact.id}
+            className="rounded-xl bg-white px-4 py-3 ring-1 ring-blue-200"
+          >
+            <p className="font-bold">
+              {contact.name ?? contact.role ?? contact.program}
+            </p>
+            {(contact.name || contact.role) && (
+              <p className="text-sm text-gray-600">
+                {[contact.name && contact.role, contact.program]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            )}
+            <dl className="mt-1.5 space-y-1 text-base">
+              {contact.phone && (
+                <div className="flex items-center gap-2">
+                  <dt>
+                    <PhoneIcon className="size-4 text-blue-700" />
+                    <span className="sr-only">{t.contacts.phone}</span>
+                  </dt>
+                  <dd>
+                    <a
+                      href={`tel:${contact.phone.replace(/[^\d+]/g, "")}`}
+                      className="font-bold text-blue-700 underline underline-offset-2"
+                    >
+                      {contact.phone}
+                    </a>
+                  </dd>
+                </div>
+              )}
+              {contact.email && (
+                <div className="flex items-center gap-2">
+                  <dt>
+                    <MailIcon className="size-4 text-blue-700" />
+                    <span className="sr-only">{t.contacts.email}</span>
+                  </dt>
+                  <dd>
+                    <a
+                      href={`mailto:${contact.email}`}
+                      className="text-blue-700 underline underline-offset-2"
+                    >
+                      {contact.email}
+                    </a>
+                  </dd>
+                </div>
+              )}
+              {contact.officeLocation && (
+                <div className="flex items-center gap-2">
+                  <dt>
+                    <MapPinIcon className="size-4 text-blue-700" />
+                    <span className="sr-only">{t.contacts.office}</span>
+                  </dt>
+                  <dd>{contact.officeLocation}</dd>
+                </div>
+              )}
+              {contact.hours && (
+                <div className="flex items-center gap-2">
+                  <dt>
+                    <ClockIcon className="size-4 text-blue-700" />
+                    <span className="sr-only">{t.contacts.hours}</span>
+                  </dt>
+                  <dd>{contact.hours}</dd>
+                </div>
+              )}
+            </dl>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function CitationChip({
+  reference,
+  active,
+  onSelect,
+  label,
+}: {
+  reference: number
+  active: boolean
+  onSelect: (reference: number | null) => void
+  label: string
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(active ? null : reference)}
+      aria-label={label}
+      aria-pressed={active}
+      className={`mx-0.5 inline-flex min-w-7 cursor-pointer items-center justify-center rounded-full px-2 align-baseline text-sm font-bold transition-colors ${
+        active
+          ? "bg-yellow-400 text-green-800"
+          : "bg-green-700 text-white hover:bg-green-600"
+      }`}
+    >
+      {reference}
+    </button>
+  )
+}
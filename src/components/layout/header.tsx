@@ -1,11 +1,13 @@
-export default function Header() {
+import type { UIMessages } from "@/lib/i18n"
+
+export default function Header({ t }: { t: UIMessages }) {
   return (
     <header className="shrink-0 border-b bg-primary px-6 py-5 font-[Schoolbell]">
       <h1 className="text-center text-3xl md:text-4xl font-bold text-primary-foreground">
-        Digital Family Resource Navigator
+        {t.header.title}
       </h1>
       <p className="mt-1 text-center text-lg md:text-xl text-primary-foreground/80">
-        Ask a question about our programs, services, and resources.
+        {t.header.subtitle}
       </p>
     </header>
   )
@@ -0,0 +1,133 @@
+"use client";
+
+import { LoaderCircleIcon, MicIcon, SquareIcon } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { UIMessages } from "@/lib/i18n";
+import type { LanguageCode } from "@/lib/languages";
+
+const MAX_RECORDING_MS = 30 * 1000; // 30 seconds
+
+type RecordingState = "idle" | "recording" | "transcribing";
+
+export function SpeechInputButton({
+  language,
+  disabled,
+  onStart,
+  onTranscript,
+  onError,
+  t,
+}: {
+  // Picked language; null lets the transcriber detect it
+  language: LanguageCode | null;
+  disabled: boolean;
+  onStart: () => void;
+  onTranscript: (text: string) => void;
+  onError: (message: string) => void;
+  t: UIMessages;
+}) {
+  const [state, setState] = useState<RecordingState>("idle");
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Release the microphone if the kiosk resets mid-recording
+  useEffect(() => {
+    return () => {
+      if (stopTimer.current) clearTimeout(stopTimer.current);
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") {
+        recorder.onstop = null;
+        recorder.stop();
+        for (const track of recorder.stream.getTracks()) track.stop();
+      }
+    };
+  }, []);
+
+  const transcribe = async (audio: Blob) => {
+    setState("transcribing");
+    try {
+      const body = new FormData();
+      body.append("audio", audio);
+      if (language) body.append("language", language);
+
+      const res = await fetch("/api/transcribe", { method: "POST", body });
+      if (!res.ok) throw new Error(`Transcription failed: ${res.status}`);
+
+      const { text }: { text: string } = await res.json();
+      if (text) {
+        onTranscript(text);
+      } else {
+        onError(t.speech.error);
+      }
+    } catch {
+      onError(t.speech.error);
+    } finally {
+      setState("idle");
+    }
+  };
+
+  const startRecording = async () => {
+    onStart();
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        for (const track of stream.getTracks()) track.stop();
+        if (stopTimer.current) clearTimeout(stopTimer.current);
+        transcribe(new Blob(chunks, { type: recorder.mimeType }));
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setState("recording");
+      stopTimer.current = setTimeout(() => recorder.stop(), MAX_RECORDING_MS);
+    } catch {
+      // Permission denied or no microphone
+      onError(t.speech.unavailable);
+      setState("idle");
+    }
+  };
+
+  const handleClick = () => {
+    if (state === "recording") {
+      recorderRef.current?.stop();
+    } else if (state === "idle") {
+      startRecording();
+    }
+  };
+
+  const label =
+    state === "recording"
+      ? t.speech.stop
+      : state === "transcribing"
+        ? t.speech.transcribing
+        : t.speech.start;
+
+  return (
+    <Button
+      type="button"
+      size="lg"
+      onClick={handleClick}
+      disabled={disabled || state === "transcribing"}
+      aria-label={label}
+      aria-pressed={state === "recording"}
+      title={label}
+      className={`h-12 shrink-0 px-4 disabled:opacity-50 ${
+        state === "recording"
+          ? "animate-pulse bg-red-700 text-white hover:bg-red-600"
+          : "bg-blue-700 text-white hover:bg-blue-600"
+      }`}
+    >
+      {state === "recording" ? (
+        <SquareIcon className="size-6" />
+      ) : state === "transcribing" ? (
+        <LoaderCircleIcon className="size-6 animate-spin" />
+      ) : (
+        <MicIcon className="size-6" />
+      )}
+    </Button>
+  );
+}
@@ -1,18 +1,62 @@
+import { sql } from "drizzle-orm";
 import {
+  type AnyPgColumn,
+  customType,
+  date,
+  index,
+  integer,
   pgTable,
+  primaryKey,
   text,
+  timestamp,
+  uniqueIndex,
   uuid,
   varchar,
-  vector,
-  index,
 } from "drizzle-orm/pg-core";
 
-export const documents = pgTable("documents", {
-  id: uuid("id").defaultRandom().primaryKey(),
-  title: varchar("title", { length: 512 }).notNull(),
-  sourceUrl: text("source_url"),
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Dimensionless pgvector column; each embedding model's rows share one
+// dimension, enforced by embedding_models and indexed per model
+const anyVector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return "vector";
+  },
+  toDriver(value) {
+    return `[${value.join(",")}]`;
+  },
+  fromDriver(value) {
+    return JSON.parse(value);
+  },
 });
 
+export const documents = pgTable(
+  "documents",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    title: varchar("title", { length: 512 }).notNull(),
+    sourceUrl: text("source_url"),
+    // Retrieval metadata; a null location, audience or effective bound
+    // means the document applies everywhere, to everyone, or indefinitely
+    tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+    language: varchar("language", { length: 8 }).notNull().default("en"),
+    location: varchar("location", { length: 256 }),
+    audience: text("audience").array(),
+    effectiveFrom: date("effective_from"),
+    effectiveTo: date("effective_to"),
+    // The earlier version this document replaces once it takes effect
+    supersedesId: uuid("supersedes_id").references(
+      (): AnyPgColumn => documents.id,
+      { onDelete: "set null" },
+    ),
+  },
+  (table) => [index("documents_tags_idx").using("gin", table.tags)],
+);
+
 export const textChunks = pgTable(
   "text_chunks",
   {
@@ -22,12 +66,82 @@ export const textChunks = pgTable(
       .references(() => documents.id, { onDelete: "cascade" }),
     sectionTitle: varchar("section_title", { length: 512 }),
     content: text("content").notNull(),
-    embedding: vector("embedding", { dimensions: 1536 }).notNull(),
+    // Roles the chunk is meant for; null inherits the document's audience
+    audience: text("audience").array(),
+    // Page the chunk starts on, for documents extracted from PDFs
+    page: integer("page"),
+    // Order of the chunk in its document's chunk file; identifies the chunk
+    // across imports, so edited text replaces the old row. Null for rows
+    // imported before positions were recorded
+    position: integer("position"),
+    // Section titles are weighted above body text for lexical search
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce(section_title, '')), 'A') || setweight(to_tsvector('english', content), 'B')`,
+    ),
   },
   (table) => [
-    index("text_chunks_embedding_idx").using(
-      "hnsw",
-      table.embedding.op("vector_cosine_ops"),
+    index("text_chunks_search_vector_idx").using("gin", table.searchVector),
+    uniqueIndex("text_chunks_document_position_idx").on(
+      table.documentId,
+      table.position,
     ),
   ],
 );
+
+/**
+ * An embedding collection: one row per embedding model the corpus is
+ * (or is being) embedded with
+ */
+export const embeddingModels = pgTable("embedding_models", {
+  name: varchar("name", { length: 256 }).primaryKey(),
+  provider: varchar("provider", { length: 64 }).notNull(),
+  dimensions: integer("dimensions").notNull(),
+  // building: re-embedding in progress; ready: searchable; retired: kept only
+  // until its rows are deleted
+  status: varchar("status", {
+    length: 16,
+    enum: ["building", "ready", "retired"],
+  })
+    .notNull()
+    .default("building"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const chunkEmbeddings = pgTable(
+  "chunk_embeddings",
+  {
+    chunkId: uuid("chunk_id")
+      .notNull()
+      .references(() => textChunks.id, { onDelete: "cascade" }),
+    model: varchar("model", { length: 256 })
+      .notNull()
+      .references(() => embeddingModels.name, { onDelete: "cascade" }),
+    embedding: anyVector("embedding").notNull(),
+    // Hash of the model and chunk text the embedding was made from
+    contentHash: varchar("content_hash", { length: 64 }),
+  },
+  // HNSW indexes are partial expression indexes per model, created by
+  // ensureEmbeddingIndex since they need the model's dimension
+  (table) => [primaryKey({ columns: [table.chunkId, table.model] })],
+);
+
+/**
+ * Referral directory of programs and the people or offices to contact,
+ * imported from public directories so referrals quote exact details
+ */
+export const contacts = pgTable(
+  "contacts",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    program: varchar("program", { length: 256 }).notNull(),
+    // Position or office, e.g. "Enrollment Coordinator"
+    role: varchar("role", { length: 256 }),
+    name: varchar("name", { length: 256 }),
+    phone: varchar("phone", { length: 64 }),
+    email: varchar("email", { length: 256 }),
+    officeLocation: text("office_location"),
+    hours: text("hours"),
+    sourceUrl: text("source_url"),
+  },
+  (table) => [index("contacts_program_idx").on(table.program)],
+);
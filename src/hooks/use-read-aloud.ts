@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LanguageCode } from "@/lib/languages";
+import type { ReadAloudMode } from "@/lib/speech-synthesis";
+import { splitSentences, toSpeechText } from "@/lib/speech-text";
+
+export interface ReadAloudState {
+  messageId: string;
+  sentences: string[];
+  // Sentence being spoken
+  index: number;
+}
+
+/**
+ * Speak one sentence with the browser's built-in voices
+ */
+function speakInBrowser(text: string, language: LanguageCode): Promise<void> {
+  return new Promise((resolve) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = language;
+    const voice = speechSynthesis
+      .getVoices()
+      .find((v) => v.lang.toLowerCase().startsWith(language));
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    speechSynthesis.speak(utterance);
+  });
+}
+
+async function fetchSpeech(text: string, language: LanguageCode) {
+  const res = await fetch("/api/speech", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text, language }),
+  });
+  if (!res.ok) throw new Error(`Speech synthesis failed: ${res.status}`);
+  return res.blob();
+}
+
+/**
+ * Read answers aloud sentence by sentence, tracking the current sentence so
+ * it can be highlighted. Only one message is read at a time, in the language
+ * it was written in
+ */
+export function useReadAloud(mode: ReadAloudMode) {
+  const [reading, setReading] = useState<ReadAloudState | null>(null);
+  // Bumped on every start/stop so an abandoned run stops at the next sentence
+  const runId = useRef(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stop = useCallback(() => {
+    runId.current++;
+    if (typeof speechSynthesis !== "undefined") speechSynthesis.cancel();
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setReading(null);
+  }, []);
+
+  const playOnServer = useCallback(
+    async (
+      sentences: string[],
+      language: LanguageCode,
+      onSentence: (index: number) => boolean,
+    ) => {
+      // Fetch the next sentence while the current one plays. A prefetch
+      // left behind by a stopped run is never awaited, so mark its failure
+      // handled; awaiting it still throws
+      const prefetch = (text: string) => {
+        const speech = fetchSpeech(text, language);
+        speech.catch(() => {});
+        return speech;
+      };
+      let next = prefetch(sentences[0]);
+      for (let i = 0; i < sentences.length; i++) {
+        const blob = await next;
+        if (i + 1 < sentences.length) {
+          next = prefetch(sentences[i + 1]);
+        }
+        if (!onSentence(i)) return;
+
+        const url = URL.createObjectURL(blob);
+        const audio = new Audio(url);
+        audioRef.current = audio;
+        await new Promise<void>((resolve) => {
+          audio.onended = () => resolve();
+          audio.onerror = () => resolve();
+          audio.onpause = () => resolve();
+          audio.play().catch(() => resolve());
+        });
+        URL.revokeObjectURL(url);
+      }
+    },
+    [],
+  );
+
+  const play = useCallback(
+    async (messageId: string, markdown: string, language: LanguageCode) => {
+      stop();
+      if (mode === "off") return;
+
+      const sentences = splitSentences(toSpeechText(markdown), language);
+      if (sentences.length === 0) return;
+
+      const id = runId.current;
+      const onSentence = (index: number) => {
+        if (runId.current !== id) return false;
+        setReading({ messageId, sentences, index });
+        return true;
+      };
+
+      try {
+        if (mode === "server") {
+          await playOnServer(sentences, language, onSentence);
+        } else {
+          for (let i = 0; i < sentences.length; i++) {
+            if (!onSentence(i)) return;
+            await speakInBrowser(sentences[i], language);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to read answer aloud:", error);
+      }
+
+      if (runId.current === id) setReading(null);
+    },
+    [mode, stop, playOnServer],
+  );
+
+  // Stop speaking when the kiosk unmounts
+  useEffect(() => stop, [stop]);
+
+  return { reading, play, stop };
+}
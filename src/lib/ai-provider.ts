@@ -0,0 +1,113 @@
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import type { EmbeddingModel, LanguageModel } from "ai";
+import {
+  createFakeChatModel,
+  createFakeEmbeddingModel,
+} from "@/lib/fake-models";
+
+export type ProviderName = "openai" | "openai-compatible" | "fake";
+
+interface ModelProvider {
+  chat(modelId: string): LanguageModel;
+  embedding(modelId: string, dimensions: number): EmbeddingModel;
+}
+
+// Output dimensions of well-known embedding models
+const KNOWN_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "all-minilm": 384,
+};
+
+// Local servers (llama.cpp, Ollama) speak the chat completions API
+const openaiCompatible = createOpenAI({
+  name: "openai-compatible",
+  baseURL:
+    process.env.OPENAI_COMPATIBLE_BASE_URL ?? "http://localhost:11434/v1",
+  apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+});
+
+const providers: Record<ProviderName, ModelProvider> = {
+  openai: {
+    chat: (modelId) => openai(modelId),
+    embedding: (modelId) => openai.embedding(modelId),
+  },
+  "openai-compatible": {
+    chat: (modelId) => openaiCompatible.chat(modelId),
+    embedding: (modelId) => openaiCompatible.embedding(modelId),
+  },
+  fake: {
+    chat: (modelId) => createFakeChatModel(modelId),
+    embedding: (modelId, dimensions) =>
+      createFakeEmbeddingModel(modelId, dimensions),
+  },
+};
+
+/**
+ * Check a provider name against the registry
+ */
+export function parseProviderName(value: string): ProviderName {
+  if (!(value in providers)) {
+    throw new Error(
+      `Unknown provider "${value}": expected one of ${Object.keys(providers).join(", ")}`,
+    );
+  }
+  return value as ProviderName;
+}
+
+function readProvider(name: string): ProviderName {
+  return parseProviderName(
+    process.env[name] ?? process.env.AI_PROVIDER ?? "openai",
+  );
+}
+
+/**
+ * Output dimension of an embedding model
+ * Models not in the known list need EMBEDDING_DIMENSIONS
+ */
+export function getEmbeddingDimensions(modelId: string): number {
+  const dimensions =
+    KNOWN_EMBEDDING_DIMENSIONS[modelId] ||
+    Number(process.env.EMBEDDING_DIMENSIONS);
+  if (!dimensions) {
+    throw new Error(
+      `Unknown dimensions for embedding model "${modelId}": set EMBEDDING_DIMENSIONS`,
+    );
+  }
+  return dimensions;
+}
+
+/**
+ * Model selection, configured by environment
+ * AI_PROVIDER sets both providers; CHAT_PROVIDER / EMBEDDING_PROVIDER override it
+ */
+export const modelConfig = {
+  chatProvider: readProvider("CHAT_PROVIDER"),
+  chatModel: process.env.CHAT_MODEL ?? "gpt-5-mini",
+  embeddingProvider: readProvider("EMBEDDING_PROVIDER"),
+  embeddingModel: process.env.EMBEDDING_MODEL ?? "text-embedding-3-small",
+};
+
+/**
+ * Resolve the configured chat model
+ */
+export function getChatModel(): LanguageModel {
+  return providers[modelConfig.chatProvider].chat(modelConfig.chatModel);
+}
+
+/**
+ * Resolve an embedding model
+ * Defaults to the configured one; re-embedding passes a different model
+ */
+export function getEmbeddingModel(
+  provider: ProviderName = modelConfig.embeddingProvider,
+  modelId: string = modelConfig.embeddingModel,
+): EmbeddingModel {
+  return providers[provider].embedding(
+    modelId,
+    getEmbeddingDimensions(modelId),
+  );
+}
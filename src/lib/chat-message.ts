@@ -0,0 +1,86 @@
+import type { UIMessage } from "ai";
+import type { Contact } from "@/lib/contacts";
+import type { CrisisResponse } from "@/lib/crisis-resources";
+import type { LanguageCode } from "@/lib/languages";
+
+/**
+ * A retrieved chunk cited by an answer
+ * `reference` is the number used by inline markers such as [1]
+ */
+export interface Source {
+  reference: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  sectionTitle: string | null;
+  url: string | null;
+}
+
+export interface AnswerStatus {
+  answered: boolean;
+  grounded: boolean;
+  escalate: boolean;
+}
+
+/**
+ * Answer data part, streamed as the markdown grows and completed with the
+ * validated status, the sources the answer actually used and the directory
+ * contacts it refers the user to
+ */
+export interface AnswerData {
+  markdown: string;
+  // Present once the structured answer is complete and validated
+  status?: AnswerStatus;
+  sources: Source[];
+  contacts: Contact[];
+  // Language the answer is written in, which may differ from the picked one
+  language: LanguageCode;
+}
+
+/**
+ * Retrieval debug trace, only sent when CHAT_DEBUG is enabled
+ */
+export interface RetrievalTrace {
+  originalQuery: string;
+  // Follow-up rewritten as a standalone question, in the user's language
+  standaloneQuery: string;
+  // Standalone query in the document language
+  searchQuery: string;
+  // Language the answer is written in
+  language: LanguageCode;
+}
+
+/**
+ * Staff-approved escalation sent instead of an answer when a message
+ * describes a crisis; the message is already worded for the user's role
+ */
+export type CrisisData = Omit<CrisisResponse, "studentMessage">;
+
+export type KioskDataParts = {
+  answer: AnswerData;
+  crisis: CrisisData;
+  trace: RetrievalTrace;
+};
+
+/**
+ * UI message shape shared by the /api/chat route and the kiosk client
+ */
+export type KioskUIMessage = UIMessage<never, KioskDataParts>;
+
+/**
+ * Join the text parts of a UI message into a single string
+ * Assistant answers are carried in the answer and crisis data parts
+ *
+ * @param message - Message with a parts array (AI SDK v6)
+ * @returns Concatenated text content
+ */
+export function getMessageText(message: Pick<KioskUIMessage, "parts">): string {
+  return message.parts
+    .map((part) => {
+      if (part.type === "text") return part.text;
+      if (part.type === "data-answer") return part.data.markdown;
+      if (part.type === "data-crisis") return part.data.message;
+      return "";
+    })
+    .join("");
+}
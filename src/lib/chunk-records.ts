@@ -0,0 +1,95 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { z } from "zod";
+
+/**
+ * Interchange format for document chunks
+ *
+ * Chunk files are JSONL: one chunk record per line. Every data script reads
+ * and writes them through this module, and records are validated on read,
+ * so content may hold tabs, newlines and quotes without breaking rows.
+ *
+ * Example line (wrapped):
+ * {"document":{"title":"School Wellness Policy","sourceUrl":"https://...",
+ *  "tags":["policy"]},"section":"Quality of Food","content":"...",
+ *  "metadata":{"audience":["parent"],"page":3},"embedding":[0.01,...],
+ *  "contentHash":"9f86d0..."}
+ */
+
+// Comma lists from spreadsheets are normalized the same way
+const listSchema = z.array(z.string().trim().toLowerCase().min(1));
+
+export const chunkRecordSchema = z.object({
+  document: z.object({
+    title: z.string().trim().min(1),
+    sourceUrl: z.string().trim().optional(),
+    // Document tags, e.g. "internal" for staff procedures
+    tags: listSchema.optional(),
+    // Period the document is in effect, as YYYY-MM-DD
+    effectiveFrom: z.iso.date().optional(),
+    effectiveTo: z.iso.date().optional(),
+    // Title or source URL of the earlier version this document replaces
+    supersedes: z.string().trim().min(1).optional(),
+  }),
+  section: z.string().trim().optional(),
+  content: z.string().trim().min(1),
+  metadata: z
+    .object({
+      // Roles the chunk is meant for; empty means everyone
+      audience: listSchema.optional(),
+      // Page the chunk starts on in its source PDF
+      page: z.int().positive().optional(),
+    })
+    .optional(),
+  embedding: z.array(z.number()).optional(),
+  // Hash of the embedding model and the content the embedding was made from;
+  // an embedding whose hash no longer matches is stale
+  contentHash: z.string().optional(),
+});
+
+export type ChunkRecord = z.infer<typeof chunkRecordSchema>;
+
+/**
+ * Read and validate a JSONL chunk file
+ * @param filepath - Path to the .jsonl file
+ * @returns The chunk records in file order
+ * @throws With the line number when a line is not a valid chunk record
+ */
+export async function readChunkRecords(
+  filepath: string,
+): Promise<ChunkRecord[]> {
+  const content = await readFile(filepath, "utf-8");
+  const records: ChunkRecord[] = [];
+
+  for (const [index, line] of content.split("\n").entries()) {
+    if (!line.trim()) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${filepath}:${index + 1}: invalid JSON (${error})`);
+    }
+    const result = chunkRecordSchema.safeParse(value);
+    if (!result.success) {
+      throw new Error(
+        `${filepath}:${index + 1}: invalid chunk record\n${z.prettifyError(result.error)}`,
+      );
+    }
+    records.push(result.data);
+  }
+
+  return records;
+}
+
+/**
+ * Write chunk records as JSONL
+ * @param filepath - Path to the .jsonl file
+ * @param records - Chunk records, in the order to write them
+ */
+export async function writeChunkRecords(
+  filepath: string,
+  records: ChunkRecord[],
+) {
+  const lines = records.map((record) => JSON.stringify(record));
+  await writeFile(filepath, `${lines.join("\n")}\n`, "utf-8");
+}
@@ -0,0 +1,281 @@
+import { countTokens } from "gpt-tokenizer/encoding/cl100k_base";
+
+/**
+ * Token-aware chunking of extracted document text
+ *
+ * Input is the document's text in reading order as blocks (paragraphs, list
+ * items or table rows) tagged with their section. Chunks never span two
+ * sections, bullet lists and tables stay in one chunk whenever they fit, and
+ * undersized chunks are merged with a neighbour from the same section.
+ * Tokens are counted with the cl100k_base encoding used by OpenAI embedding
+ * models, which is close enough for sizing chunks for other embedding models
+ * too.
+ */
+
+export interface TextBlock {
+  sectionTitle: string;
+  text: string;
+  // Page the block starts on, for PDFs
+  page?: number;
+}
+
+export interface Chunk {
+  sectionTitle: string;
+  content: string;
+  page?: number;
+}
+
+export interface ChunkerOptions {
+  // Upper bound on chunk size
+  maxTokens?: number;
+  // Trailing text of the previous chunk repeated at the start of the next,
+  // so a statement split across chunks is still found whole
+  overlapTokens?: number;
+  // Chunks smaller than this are merged with a neighbour when they fit
+  minTokens?: number;
+}
+
+/**
+ * Read a token count from the environment, falling back when unset, invalid
+ * or below the minimum. Zero is a valid setting, e.g. for no overlap
+ */
+function readTokenCount(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= min
+    ? value
+    : fallback;
+}
+
+/**
+ * Chunking defaults
+ * Overridable per deployment; the PDF/markdown ingesters and the re-chunk
+ * command all read these
+ */
+export const chunkerConfig: Required<ChunkerOptions> = {
+  maxTokens: readTokenCount("CHUNK_MAX_TOKENS", 350, 1),
+  overlapTokens: readTokenCount("CHUNK_OVERLAP_TOKENS", 50, 0),
+  minTokens: readTokenCount("CHUNK_MIN_TOKENS", 80, 0),
+};
+
+// Bullet and numbered items, and markdown table rows, which are kept
+// together the same way
+const LIST_ITEM_PATTERN = /^([•●▪◦‣\-*–]|\d+[.)]|[a-z][.)])\s+|^\|/;
+
+// A paragraph or a whole bullet list; the smallest thing chunks are built from
+interface Unit {
+  text: string;
+  tokens: number;
+  isList: boolean;
+  page?: number;
+}
+
+interface Section {
+  title: string;
+  blocks: TextBlock[];
+}
+
+function splitSections(blocks: TextBlock[]): Section[] {
+  const sections: Section[] = [];
+  for (const block of blocks) {
+    const last = sections.at(-1);
+    if (last && last.title === block.sectionTitle) {
+      last.blocks.push(block);
+    } else {
+      sections.push({ title: block.sectionTitle, blocks: [block] });
+    }
+  }
+  return sections;
+}
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) ?? [text];
+}
+
+/**
+ * Split text that is too long on its own, at sentence boundaries and as a
+ * last resort at word boundaries
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  const pushWords = (sentence: string) => {
+    for (const word of sentence.split(/(?<=\s)/)) {
+      if (current && countTokens(current + word) > maxTokens) {
+        pieces.push(current.trim());
+        current = "";
+      }
+      current += word;
+    }
+  };
+
+  for (const sentence of splitSentences(text)) {
+    if (countTokens(current + sentence) <= maxTokens) {
+      current += sentence;
+    } else if (countTokens(sentence) <= maxTokens) {
+      pieces.push(current.trim());
+      current = sentence;
+    } else {
+      pushWords(sentence);
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces.filter(Boolean);
+}
+
+/**
+ * Turn a section's blocks into units: consecutive list items become one
+ * list unit, and paragraphs longer than maxTokens are split
+ */
+function toUnits(blocks: TextBlock[], maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text) continue;
+    const isList = LIST_ITEM_PATTERN.test(text);
+    const last = units.at(-1);
+
+    if (isList && last?.isList) {
+      const joined = `${last.text}\n${text}`;
+      const tokens = countTokens(joined);
+      if (tokens <= maxTokens) {
+        last.text = joined;
+        last.tokens = tokens;
+        continue;
+      }
+    }
+
+    const tokens = countTokens(text);
+    if (tokens <= maxTokens) {
+      units.push({ text, tokens, isList, page: block.page });
+      continue;
+    }
+    for (const piece of splitOversized(text, maxTokens)) {
+      units.push({
+        text: piece,
+        tokens: countTokens(piece),
+        isList: false,
+        page: block.page,
+      });
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Trailing sentences of a paragraph, up to the overlap budget
+ * Lists are not split, so they contribute no overlap
+ */
+function overlapText(unit: Unit, overlapTokens: number): string {
+  if (unit.isList || overlapTokens <= 0) return "";
+  let overlap = "";
+  for (const sentence of splitSentences(unit.text).reverse()) {
+    const candidate = sentence + overlap;
+    if (countTokens(candidate) > overlapTokens) break;
+    overlap = candidate;
+  }
+  // Repeating the whole unit would just duplicate it
+  return overlap.trim() === unit.text.trim() ? "" : overlap.trim();
+}
+
+function separator(previous: Unit | undefined, next: Unit): string {
+  return previous?.isList && next.isList ? "\n" : "\n\n";
+}
+
+interface PackedChunk {
+  // Text repeated from the end of the previous chunk
+  overlap: string;
+  body: string;
+  tokens: number;
+  page?: number;
+}
+
+function packed(overlap: string, body: string, page?: number): PackedChunk {
+  const content = overlap ? `${overlap}\n\n${body}` : body;
+  return { overlap, body, tokens: countTokens(content), page };
+}
+
+/**
+ * Pack a section's units into chunks of at most maxTokens
+ */
+function packSection(
+  section: Section,
+  options: Required<ChunkerOptions>,
+): Chunk[] {
+  const { maxTokens, overlapTokens, minTokens } = options;
+  const chunks: PackedChunk[] = [];
+  let current: PackedChunk | null = null;
+  let previousUnit: Unit | undefined;
+
+  for (const unit of toUnits(section.blocks, maxTokens)) {
+    if (current) {
+      const body = current.body + separator(previousUnit, unit) + unit.text;
+      const next = packed(current.overlap, body, current.page);
+      if (next.tokens <= maxTokens) {
+        current = next;
+        previousUnit = unit;
+        continue;
+      }
+      chunks.push(current);
+    }
+
+    // Start a new chunk, carrying over the end of the previous one if it fits
+    const overlap = previousUnit
+      ? overlapText(previousUnit, overlapTokens)
+      : "";
+    const withOverlap = packed(overlap, unit.text, unit.page);
+    current =
+      withOverlap.tokens <= maxTokens
+        ? withOverlap
+        : packed("", unit.text, unit.page);
+    previousUnit = unit;
+  }
+  if (current) chunks.push(current);
+
+  // Merge undersized chunks into a neighbour from the same section, dropping
+  // the overlap that would now repeat text already in the chunk
+  for (let i = 0; i < chunks.length; i++) {
+    if (chunks[i].tokens >= minTokens) continue;
+    for (const j of [i - 1, i + 1]) {
+      if (j < 0 || j >= chunks.length) continue;
+      const [first, second] = j < i ? [j, i] : [i, j];
+      const merged = packed(
+        chunks[first].overlap,
+        `${chunks[first].body}\n\n${chunks[second].body}`,
+        chunks[first].page,
+      );
+      if (merged.tokens <= maxTokens) {
+        chunks.splice(first, 2, merged);
+        i = first - 1;
+        break;
+      }
+    }
+  }
+
+  return chunks.map((chunk) => ({
+    sectionTitle: section.title,
+    content: chunk.overlap ? `${chunk.overlap}\n\n${chunk.body}` : chunk.body,
+    page: chunk.page,
+  }));
+}
+
+/**
+ * Split a document's blocks into chunks for embedding
+ * @param blocks - Paragraphs and list items in reading order, with sections
+ * @param options - Size limits (default: chunkerConfig)
+ * @returns Chunks in reading order
+ */
+export function chunkBlocks(
+  blocks: TextBlock[],
+  options: ChunkerOptions = {},
+): Chunk[] {
+  const resolved = { ...chunkerConfig, ...options };
+  if (resolved.overlapTokens >= resolved.maxTokens) {
+    throw new Error("Chunk overlap must be smaller than the maximum size");
+  }
+  return splitSections(blocks).flatMap((section) =>
+    packSection(section, resolved),
+  );
+}
@@ -0,0 +1,46 @@
+// Matches inline markers such as [1], but not markdown links like [1](url)
+const CITATION_PATTERN = /\[(\d+)\](?!\()/g;
+
+export const CITATION_HREF_PREFIX = "#cite-";
+
+/**
+ * Collect the reference numbers cited inline in an answer
+ *
+ * @param markdown - Answer text containing markers such as [1]
+ * @returns Unique reference numbers in ascending order
+ */
+export function extractCitations(markdown: string): number[] {
+  const numbers = [...markdown.matchAll(CITATION_PATTERN)].map((match) =>
+    Number(match[1]),
+  );
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
+
+/**
+ * Turn inline markers into links so the renderer can show them as chips
+ *
+ * @param markdown - Answer text containing markers such as [1]
+ * @returns Markdown where [1] becomes [1](#cite-1)
+ */
+export function linkCitations(markdown: string): string {
+  return markdown.replace(
+    CITATION_PATTERN,
+    (marker, n) => `[${marker}](${CITATION_HREF_PREFIX}${n})`,
+  );
+}
+
+/**
+ * Read the reference number from a citation link, if it is one
+ */
+export function parseCitationHref(href: string | undefined): number | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+  const n = Number(href.slice(CITATION_HREF_PREFIX.length));
+  return Number.isInteger(n) ? n : null;
+}
+
+/**
+ * Remove inline markers, e.g. before reading an answer aloud
+ */
+export function stripCitations(markdown: string): string {
+  return markdown.replace(CITATION_PATTERN, "");
+}
@@ -0,0 +1,54 @@
+import { generateText } from "ai";
+import { getChatModel } from "@/lib/ai-provider";
+import { getMessageText, type KioskUIMessage } from "@/lib/chat-message";
+
+// Only the most recent turns are needed to resolve a follow-up
+const HISTORY_WINDOW = 6;
+
+const CONDENSE_SYSTEM_PROMPT = `You rewrite the user's latest message into a standalone search query for a document search engine.
+
+RULES:
+- Resolve pronouns and references ("it", "that program", "what time does it end?") using the conversation history.
+- Keep program names, acronyms and exact terms as written.
+- Do NOT answer the question. Return only the rewritten query, with no quotes or explanation.
+- If the latest message is already standalone, return it unchanged.`;
+
+/**
+ * Rewrite the latest user turn into a standalone search query
+ * Returns the original text when there is no prior conversation
+ *
+ * @param messages - Conversation so far, ending with the latest user message
+ * @param latestText - Text of the latest user message
+ * @returns Standalone query to embed and search with
+ */
+export async function condenseQuestion(
+  messages: KioskUIMessage[],
+  latestText: string,
+): Promise<string> {
+  const history = messages.slice(0, -1).slice(-HISTORY_WINDOW);
+
+  if (!history.some((m) => m.role === "user")) {
+    return latestText;
+  }
+
+  const transcript = history
+    .map(
+      (m) =>
+        `${m.role === "user" ? "User" : "Assistant"}: ${getMessageText(m)}`,
+    )
+    .join("\n");
+
+  try {
+    const { text } = await generateText({
+      model: getChatModel(),
+      system: CONDENSE_SYSTEM_PROMPT,
+      prompt: `Conversation history:\n${transcript}\n\nLatest message: ${latestText}\n\nStandalone query:`,
+    });
+
+    return text.trim() || latestText;
+  } catch (error) {
+    // Retrieval still works on the raw question if rewriting fails
+    console.error("Failed to condense question:", error);
+    return latestText;
+  }
+}
@@ -0,0 +1,78 @@
+import { tool } from "ai";
+import { desc, gt, type SQL, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db";
+import { contacts } from "@/db/schema";
+import { escapeLike } from "@/lib/vector-search";
+
+export type Contact = typeof contacts.$inferSelect;
+
+// Fields a lookup matches against
+const SEARCHABLE = sql`concat_ws(' ', ${contacts.program}, ${contacts.role}, ${contacts.name}, ${contacts.officeLocation})`;
+
+/**
+ * Find directory contacts for a program, office or role
+ * Each query word of three or more letters that appears in a contact's
+ * program, role, name or office counts as a match; contacts matching the
+ * most words come first
+ *
+ * @param query - What the user needs help with, e.g. "enrollment office"
+ * @param limit - Maximum number of contacts to return (default: 5)
+ */
+export async function searchContacts(
+  query: string,
+  limit = 5,
+): Promise<Contact[]> {
+  const terms = [
+    ...new Set(
+      query
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term.length >= 3),
+    ),
+  ];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const matches: SQL[] = terms.map(
+    (term) =>
+      sql`(CASE WHEN ${SEARCHABLE} ILIKE ${`%${escapeLike(term)}%`} THEN 1 ELSE 0 END)`,
+  );
+  const score = sql<number>`${sql.join(matches, sql` + `)}`;
+
+  const rows = await db
+    .select({ contact: contacts, score })
+    .from(contacts)
+    .where(gt(score, 0))
+    .orderBy(desc(score), contacts.program)
+    .limit(limit);
+
+  return rows.map((row) => row.contact);
+}
+
+/**
+ * AI SDK tool that looks up directory contacts while answering
+ * Every contact returned is recorded in `found`, so the route can show the
+ * ones the answer refers to as contact cards with the exact details
+ */
+export function contactLookupTool(found: Map<string, Contact>) {
+  return tool({
+    description:
+      "Look up phone numbers, emails, office locations and hours in the school's contact directory. Use it whenever you refer the user to a program, office or staff role.",
+    inputSchema: z.object({
+      query: z
+        .string()
+        .describe(
+          'Program, office or role to look up, e.g. "enrollment office" or "school nurse".',
+        ),
+    }),
+    execute: async ({ query }) => {
+      const results = await searchContacts(query);
+      for (const contact of results) {
+        found.set(contact.id, contact);
+      }
+      return results;
+    },
+  });
+}
@@ -0,0 +1,164 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import { getChatModel } from "@/lib/ai-provider";
+import type { CrisisCategory } from "@/lib/crisis-resources";
+
+export type CrisisClassifierName = "keywords" | "model";
+
+// Checked in order; the first matching category wins. Patterns target
+// statements about a situation, not questions about school policy: topic words
+// like "suicide" or "allergic reaction" only match in first-person or
+// situational phrasing ("I'm suicidal", "she is having an allergic reaction")
+const CRISIS_PATTERNS: [CrisisCategory, RegExp[]][] = [
+  [
+    "self_harm",
+    [
+      /\b(i'?m|i am|i feel|feeling|felt|he'?s|she'?s|they'?re|is|are|was|been) (so |very |really )?suicidal\b/,
+      /\b(think|thinking|thought|thoughts) (about|of) (suicide|killing (my|him|her|them) ?sel(f|ves)|ending it)\b/,
+      /\b(commit|committing|attempt|attempted|tried|try|trying) (to commit )?suicide\b/,
+      /\b(i|he|she|they|i'?ve|he'?s|she'?s|they'?re|is|are|am|been|keeps?) (been )?(self[- ]?harming|cutting (my|him|her|them) ?sel(f|ves))\b/,
+      /\b(kill|hurt|harm|cut|cutting)\s+(my ?self|him ?self|her ?self|them ?selves)\b/,
+      /\b(want|wants|wanna|going|plan|planning)\s+to\s+die\b/,
+      /\bend (my|his|her|their) (own )?life\b/,
+      /\bdon'?t want to (live|be alive|be here anymore)\b/,
+    ],
+  ],
+  [
+    "medical_emergency",
+    [
+      /\b(can'?t|cannot|not|trouble) breath(e|ing)\b/,
+      /\b(i|he|she|they|i'?ve|i'?m|he'?s|she'?s|have|has|having) (got |a |bad )?chest pains?\b/,
+      /\b(overdosed|overdosing|took an overdose)\b/,
+      /\b(unconscious|passed out|unresponsive)\b/,
+      /\b(having|had|has|is in|going into) (a |an )?(seizure|allergic reaction|anaphyla\w*|asthma attack)\b/,
+      /\bbleeding (a lot|badly|heavily|won'?t stop)\b/,
+      /\b(swallowed|ate|drank) (poison|bleach|pills|medicine)\b/,
+    ],
+  ],
+  [
+    "domestic_violence",
+    [
+      /\b(experiencing|living with|living in|victim of|suffering|going through|escaping|fleeing) (a |an )?(domestic (violence|abuse)|abusive (relationship|home|partner|husband|wife))\b/,
+      /\b(husband|wife|partner|boyfriend|girlfriend|ex)\b.{0,20}\b(hits?|hitting|beats?|beating|slap(s|ped|ping)?|kick(s|ed|ing)?|chok(e|es|ed|ing)|push(es|ed)?|hurts?) (me|us|the kids|our kids|my (kids|children|son|daughter))\b/,
+      /\b(husband|wife|partner|boyfriend|girlfriend|ex)\b.{0,20}\bthreaten(s|ed|ing)? (me|us|to (kill|hurt|hit|beat|shoot|stab))\b/,
+      /\b(not|don'?t feel) safe at home\b/,
+      /\b(afraid|scared) to go home\b/,
+    ],
+  ],
+  [
+    "abuse",
+    [
+      /\b(am|is|are|was|were|being|been|getting|got) (sexually )?(abused|neglected|molested)\b/,
+      /\b(sexually abus\w*|molest\w*) (me|him|her|them|my \w+)\b/,
+      /\b(hits?|hitting|beats?|beating|kicks?|burns?|chokes?|choking) me\b/,
+      /\btouch(es|ed|ing)? (me|him|her) (inappropriately|in (a bad way|places|private|my private|his private|her private))/,
+      /\btouch(es|ed|ing)? (my|his|her) (private|privates|body|chest|breasts?|butt|bottom|crotch)\b/,
+      /\btouch(es|ed|ing)? me\b.{0,30}\b(don'?t|didn'?t) (like|want)\b/,
+      /\bnot (getting )?(fed|enough food) at home\b/,
+    ],
+  ],
+  [
+    "violence",
+    [
+      /\b(brought|is bringing|has|had|is carrying|carries) an? (gun|knife|weapon)\b(?! (polic|rule))/,
+      /\b(going|want|wants) to (shoot|stab|kill|hurt) (someone|somebody|everyone|people|him|her|them|you)\b/,
+      /\bthreaten(ed|ing)? to (shoot|stab|kill)\b/,
+    ],
+  ],
+];
+
+// Policy and "what if" framing: "what is the policy if a student is having a
+// seizure?", "how does the nurse handle it when...", "is it ok if..."
+const HYPOTHETICAL_QUESTION =
+  /\b(polic(y|ies)|procedures?|protocols?|rules?|action plan)\b|\b(what|how) (happens|do|does|should|would|will|is|are)\b.{0,60}\b(if|when)\b|\bhow (does|do|should|would) .{0,40}\bhandle\b|\bis it (ok|okay|allowed|normal)\b|\bwhat if\b/;
+
+/**
+ * Match a message against the curated crisis patterns
+ * Policy and hypothetical questions only match the self-harm patterns, which
+ * are first-person and too important to miss
+ *
+ * @param text - User message
+ * @returns The first matching category, or null
+ */
+export function matchCrisisPatterns(text: string): CrisisCategory | null {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+  const hypothetical = HYPOTHETICAL_QUESTION.test(normalized);
+  for (const [category, patterns] of CRISIS_PATTERNS) {
+    if (hypothetical && category !== "self_harm") continue;
+    if (patterns.some((pattern) => pattern.test(normalized))) {
+      return category;
+    }
+  }
+  return null;
+}
+
+const classificationSchema = z.object({
+  category: z
+    .enum([
+      "self_harm",
+      "abuse",
+      "domestic_violence",
+      "medical_emergency",
+      "violence",
+      "none",
+    ])
+    .describe("The crisis the message describes, or none"),
+});
+
+const CLASSIFIER_SYSTEM_PROMPT = `You screen messages sent to a school family resource kiosk for situations that need a person, not a document search.
+
+Classify the message as:
+- self_harm: thoughts of suicide or hurting oneself
+- abuse: a child being abused, neglected or touched inappropriately
+- domestic_violence: violence or threats from a partner or family member at home
+- medical_emergency: someone needs urgent medical help
+- violence: a threat to hurt others, or a weapon at school
+- none: anything else, including general questions about school policies on these topics`;
+
+/**
+ * Ask the chat model whether a message describes a crisis
+ * Catches phrasing the patterns miss; errors are treated as no match so the
+ * pattern check still applies
+ */
+async function classifyWithModel(text: string): Promise<CrisisCategory | null> {
+  try {
+    const { output } = await generateText({
+      model: getChatModel(),
+      output: Output.object({ schema: classificationSchema }),
+      system: CLASSIFIER_SYSTEM_PROMPT,
+      prompt: text,
+    });
+    return output.category === "none" ? null : output.category;
+  } catch (error) {
+    console.error("Failed to classify message for crisis detection:", error);
+    return null;
+  }
+}
+
+/**
+ * Crisis detection settings
+ * "keywords" uses the curated patterns only; "model" also asks the chat model
+ * when no pattern matches
+ */
+export const crisisConfig = {
+  classifier: (process.env.CRISIS_CLASSIFIER === "model"
+    ? "model"
+    : "keywords") as CrisisClassifierName,
+};
+
+/**
+ * Detect a crisis or sensitive situation in a user message
+ * Runs before retrieval so these messages never reach the RAG pipeline
+ *
+ * @param text - Latest user message
+ * @returns The crisis category, or null for an ordinary question
+ */
+export async function detectCrisis(
+  text: string,
+): Promise<CrisisCategory | null> {
+  const matched = matchCrisisPatterns(text);
+  if (matched || crisisConfig.classifier === "keywords") {
+    return matched;
+  }
+  return classifyWithModel(text);
+}
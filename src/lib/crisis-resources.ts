@@ -0,0 +1,243 @@
+/**
+ * Staff-approved escalation responses for sensitive topics
+ *
+ * These are returned verbatim instead of a generated answer, so every change
+ * here must be reviewed and approved by program staff before it ships. Every
+ * kiosk language has its own approved translation; hotline numbers and links
+ * stay the same in each.
+ */
+
+import type { LanguageCode } from "@/lib/languages";
+
+export type CrisisCategory =
+  | "self_harm"
+  | "abuse"
+  | "domestic_violence"
+  | "medical_emergency"
+  | "violence";
+
+export interface CrisisContact {
+  name: string;
+  // How to reach the contact, e.g. "Call or text 988"
+  action: string;
+  // tel: or sms: link for tappable kiosks and phones
+  href: string | null;
+  description: string;
+}
+
+export interface CrisisResponse {
+  category: CrisisCategory;
+  title: string;
+  message: string;
+  // Simpler wording shown in student mode
+  studentMessage: string;
+  contacts: CrisisContact[];
+}
+
+const EMERGENCY_EN: CrisisContact = {
+  name: "Emergency Services",
+  action: "Call 911",
+  href: "tel:911",
+  description: "If someone is in immediate danger.",
+};
+
+const FRONT_DESK_MESSAGE_EN =
+  "Please speak with a staff member at the front desk right away. They can help you privately.";
+
+const ENGLISH_RESPONSES: Record<CrisisCategory, CrisisResponse> = {
+  self_harm: {
+    category: "self_harm",
+    title: "You are not alone",
+    message: `It sounds like you may be going through something very hard. ${FRONT_DESK_MESSAGE_EN} You can also reach trained counselors any time, day or night.`,
+    studentMessage:
+      "Thank you for telling me. Please go to a teacher or the front desk right now. A grown-up there will help you.",
+    contacts: [
+      {
+        name: "988 Suicide & Crisis Lifeline",
+        action: "Call or text 988",
+        href: "tel:988",
+        description: "Free, confidential support 24/7, in English and Spanish.",
+      },
+      {
+        name: "Crisis Text Line",
+        action: "Text HOME to 741741",
+        href: "sms:741741?body=HOME",
+        description: "Text with a trained crisis counselor 24/7.",
+      },
+      EMERGENCY_EN,
+    ],
+  },
+  abuse: {
+    category: "abuse",
+    title: "Help is available",
+    message: `Every child has the right to be safe. ${FRONT_DESK_MESSAGE_EN} Staff are trained to help and to connect you with child protection services.`,
+    studentMessage:
+      "Thank you for telling me. You did the right thing. Please go to a teacher or the front desk right now so a grown-up can keep you safe.",
+    contacts: [
+      {
+        name: "LA County Child Protection Hotline",
+        action: "Call (800) 540-4000",
+        href: "tel:18005404000",
+        description: "Report suspected child abuse or neglect, 24/7.",
+      },
+      {
+        name: "Childhelp National Child Abuse Hotline",
+        action: "Call or text 1-800-422-4453",
+        href: "tel:18004224453",
+        description: "Counselors for children and adults, 24/7.",
+      },
+      EMERGENCY_EN,
+    ],
+  },
+  domestic_violence: {
+    category: "domestic_violence",
+    title: "You deserve to be safe",
+    message: `${FRONT_DESK_MESSAGE_EN} Confidential advocates can also help you make a safety plan.`,
+    studentMessage:
+      "Thank you for telling me. Please go to a teacher or the front desk right now. A grown-up there will help you.",
+    contacts: [
+      {
+        name: "National Domestic Violence Hotline",
+        action: "Call 1-800-799-7233 or text START to 88788",
+        href: "tel:18007997233",
+        description: "Confidential support and safety planning, 24/7.",
+      },
+      EMERGENCY_EN,
+    ],
+  },
+  medical_emergency: {
+    category: "medical_emergency",
+    title: "Get help now",
+    message:
+      "If this is a medical emergency, call 911 now and tell the front desk staff right away.",
+    studentMessage:
+      "Please tell a teacher or the front desk right now. A grown-up will get help.",
+    contacts: [
+      EMERGENCY_EN,
+      {
+        name: "Poison Control",
+        action: "Call 1-800-222-1222",
+        href: "tel:18002221222",
+        description: "If someone swallowed or touched something harmful.",
+      },
+    ],
+  },
+  violence: {
+    category: "violence",
+    title: "Safety first",
+    message: `If anyone is in danger, call 911. ${FRONT_DESK_MESSAGE_EN}`,
+    studentMessage:
+      "Please go to a teacher or the front desk right now and tell a grown-up what is happening.",
+    contacts: [EMERGENCY_EN],
+  },
+};
+
+const EMERGENCY_ES: CrisisContact = {
+  name: "Servicios de emergencia",
+  action: "Llame al 911",
+  href: "tel:911",
+  description: "Si alguien está en peligro inmediato.",
+};
+
+const FRONT_DESK_MESSAGE_ES =
+  "Por favor, hable de inmediato con un miembro del personal en la recepción. Pueden ayudarle en privado.";
+
+const SPANISH_RESPONSES: Record<CrisisCategory, CrisisResponse> = {
+  self_harm: {
+    category: "self_harm",
+    title: "No está solo",
+    message: `Parece que está pasando por algo muy difícil. ${FRONT_DESK_MESSAGE_ES} También puede hablar con consejeros capacitados a cualquier hora, de día o de noche.`,
+    studentMessage:
+      "Gracias por contármelo. Por favor, ve ahora mismo con un maestro o a la recepción. Un adulto te va a ayudar.",
+    contacts: [
+      {
+        name: "988 Línea de Prevención del Suicidio y Crisis",
+        action: "Llame o envíe un mensaje de texto al 988",
+        href: "tel:988",
+        description:
+          "Apoyo gratuito y confidencial las 24 horas, en inglés y en español.",
+      },
+      {
+        name: "Crisis Text Line",
+        action: "Envíe HOME al 741741",
+        href: "sms:741741?body=HOME",
+        description:
+          "Escriba con un consejero de crisis capacitado las 24 horas (en inglés).",
+      },
+      EMERGENCY_ES,
+    ],
+  },
+  abuse: {
+    category: "abuse",
+    title: "Hay ayuda disponible",
+    message: `Todo niño tiene derecho a estar seguro. ${FRONT_DESK_MESSAGE_ES} El personal está capacitado para ayudar y para ponerle en contacto con los servicios de protección infantil.`,
+    studentMessage:
+      "Gracias por contármelo. Hiciste lo correcto. Por favor, ve ahora mismo con un maestro o a la recepción para que un adulto te mantenga seguro.",
+    contacts: [
+      {
+        name: "Línea de Protección Infantil del Condado de Los Ángeles",
+        action: "Llame al (800) 540-4000",
+        href: "tel:18005404000",
+        description:
+          "Para reportar sospechas de abuso o negligencia infantil, las 24 horas.",
+      },
+      {
+        name: "Childhelp, Línea Nacional contra el Abuso Infantil",
+        action: "Llame o envíe un mensaje de texto al 1-800-422-4453",
+        href: "tel:18004224453",
+        description: "Consejeros para niños y adultos, las 24 horas.",
+      },
+      EMERGENCY_ES,
+    ],
+  },
+  domestic_violence: {
+    category: "domestic_violence",
+    title: "Usted merece estar seguro",
+    message: `${FRONT_DESK_MESSAGE_ES} Defensores confidenciales también pueden ayudarle a hacer un plan de seguridad.`,
+    studentMessage:
+      "Gracias por contármelo. Por favor, ve ahora mismo con un maestro o a la recepción. Un adulto te va a ayudar.",
+    contacts: [
+      {
+        name: "Línea Nacional contra la Violencia Doméstica",
+        action: "Llame al 1-800-799-7233 o envíe START al 88788",
+        href: "tel:18007997233",
+        description:
+          "Apoyo confidencial y planes de seguridad, las 24 horas, en español.",
+      },
+      EMERGENCY_ES,
+    ],
+  },
+  medical_emergency: {
+    category: "medical_emergency",
+    title: "Busque ayuda ahora",
+    message:
+      "Si es una emergencia médica, llame al 911 ahora y avise de inmediato al personal de la recepción.",
+    studentMessage:
+      "Por favor, avisa ahora mismo a un maestro o a la recepción. Un adulto va a buscar ayuda.",
+    contacts: [
+      EMERGENCY_ES,
+      {
+        name: "Control de Envenenamientos",
+        action: "Llame al 1-800-222-1222",
+        href: "tel:18002221222",
+        description: "Si alguien tragó o tocó algo dañino.",
+      },
+    ],
+  },
+  violence: {
+    category: "violence",
+    title: "La seguridad es primero",
+    message: `Si alguien está en peligro, llame al 911. ${FRONT_DESK_MESSAGE_ES}`,
+    studentMessage:
+      "Por favor, ve ahora mismo con un maestro o a la recepción y dile a un adulto lo que está pasando.",
+    contacts: [EMERGENCY_ES],
+  },
+};
+
+export const CRISIS_RESPONSES: Record<
+  LanguageCode,
+  Record<CrisisCategory, CrisisResponse>
+> = {
+  en: ENGLISH_RESPONSES,
+  es: SPANISH_RESPONSES,
+};
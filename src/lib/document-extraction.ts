@@ -0,0 +1,311 @@
+import { extname } from "node:path";
+import mammoth from "mammoth";
+import TurndownService from "turndown";
+import type { TextBlock } from "@/lib/chunker";
+import { extractPdf } from "@/lib/pdf-extraction";
+
+/**
+ * Text extraction for the document types the ingest script accepts
+ *
+ * Markdown is split into paragraphs, list items and table rows under the
+ * heading that precedes them. HTML is converted to markdown first, without
+ * the site's navigation chrome, and Word documents are converted to HTML.
+ * Lists and tables stay markdown so the chunker can keep them together.
+ */
+
+export interface ExtractedDocument {
+  // Title from the document itself, when it has one
+  title: string | null;
+  blocks: TextBlock[];
+}
+
+export const DOCUMENT_EXTENSIONS = [
+  ".pdf",
+  ".md",
+  ".markdown",
+  ".html",
+  ".htm",
+  ".docx",
+];
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const SETEXT_UNDERLINE_PATTERN = /^\s*(=+|-+)\s*$/;
+const LIST_ITEM_PATTERN = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_ROW_PATTERN = /^\s*\|.*\|\s*$/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|(\s*:?-+:?\s*\|)+\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+/**
+ * Links become their text and images are dropped; the URLs only add noise
+ * to embeddings
+ */
+function plainLinks(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<\/?[a-z][^>]*>/gi, " ");
+}
+
+function inline(text: string): string {
+  return plainLinks(text)
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Front matter is skipped, except for its title
+ */
+function splitFrontMatter(markdown: string): {
+  title: string | null;
+  body: string;
+} {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (!match) return { title: null, body: markdown };
+  const title = match[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1];
+  return { title: title || null, body: markdown.slice(match[0].length) };
+}
+
+/**
+ * Extract paragraphs, list items and table rows with their section headings
+ * from markdown
+ *
+ * @param markdown - The markdown source
+ * @returns The front matter or first top-level heading as title, and the
+ * text blocks in reading order
+ */
+export function extractMarkdown(markdown: string): ExtractedDocument {
+  const frontMatter = splitFrontMatter(
+    markdown.replace(/<!--[\s\S]*?-->/g, ""),
+  );
+  const lines = frontMatter.body.split(/\r?\n/);
+  let title = frontMatter.title;
+
+  const blocks: TextBlock[] = [];
+  let sectionTitle = "";
+  let paragraph: string[] = [];
+  // List item that indented lines continue
+  let listItem: TextBlock | null = null;
+  let fence: string[] | null = null;
+
+  const endParagraph = () => {
+    const text = inline(paragraph.join(" "));
+    if (text) blocks.push({ sectionTitle, text });
+    paragraph = [];
+  };
+  const startSection = (heading: string, level: number) => {
+    endParagraph();
+    listItem = null;
+    sectionTitle = inline(heading);
+    if (!title && level === 1) title = sectionTitle;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Code is kept verbatim, fences included
+    if (fence) {
+      fence.push(line);
+      if (FENCE_PATTERN.test(line)) {
+        blocks.push({ sectionTitle, text: fence.join("\n") });
+        fence = null;
+      }
+      continue;
+    }
+    if (FENCE_PATTERN.test(line)) {
+      endParagraph();
+      listItem = null;
+      fence = [line];
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      startSection(heading[2], heading[1].length);
+      continue;
+    }
+    const underline = lines[i + 1]?.match(SETEXT_UNDERLINE_PATTERN);
+    if (underline && line.trim() && paragraph.length === 0 && !listItem) {
+      startSection(line, underline[1].startsWith("=") ? 1 : 2);
+      i++;
+      continue;
+    }
+
+    if (!line.trim() || RULE_PATTERN.test(line)) {
+      endParagraph();
+      listItem = null;
+      continue;
+    }
+
+    if (TABLE_ROW_PATTERN.test(line)) {
+      endParagraph();
+      listItem = null;
+      const row = plainLinks(line).trim();
+      const last = blocks.at(-1);
+      // The divider belongs with the header row above it
+      if (TABLE_DIVIDER_PATTERN.test(line) && last?.text.startsWith("|")) {
+        last.text += `\n${row}`;
+      } else {
+        blocks.push({ sectionTitle, text: row });
+      }
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      endParagraph();
+      const marker = /\d/.test(item[1]) ? item[1] : "-";
+      listItem = { sectionTitle, text: `${marker} ${inline(item[2])}` };
+      blocks.push(listItem);
+      continue;
+    }
+    if (listItem && /^\s/.test(line)) {
+      listItem.text += ` ${inline(line)}`;
+      continue;
+    }
+
+    listItem = null;
+    paragraph.push(line.replace(/^\s*(>\s?)+/, ""));
+  }
+  endParagraph();
+  if (fence) blocks.push({ sectionTitle, text: fence.join("\n") });
+
+  return { title, blocks };
+}
+
+// Site navigation and page furniture, whatever element it is built from
+const CHROME_TAGS = new Set([
+  "NAV",
+  "ASIDE",
+  "FORM",
+  "BUTTON",
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "TEMPLATE",
+  "IFRAME",
+  "SVG",
+  "HEAD",
+  "TITLE",
+  "META",
+  "LINK",
+]);
+const CHROME_ROLES = new Set([
+  "navigation",
+  "banner",
+  "contentinfo",
+  "search",
+  "complementary",
+]);
+const CHROME_CLASS_PATTERN =
+  /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|sidebar|skip-link|cookie|share|social)([\s_-]|$)/i;
+
+function isChrome(node: HTMLElement): boolean {
+  if (CHROME_TAGS.has(node.nodeName)) return true;
+  if (CHROME_ROLES.has(node.getAttribute("role") ?? "")) return true;
+  if (CHROME_CLASS_PATTERN.test(node.getAttribute("class") ?? "")) return true;
+  if (node.getAttribute("aria-hidden") === "true") return true;
+
+  // Page headers and footers; those of an article or main are content
+  if (node.nodeName === "HEADER" || node.nodeName === "FOOTER") {
+    return !node.parentElement?.closest("article, main");
+  }
+  return false;
+}
+
+/**
+ * Markdown table from an HTML table, with cell text on one line
+ */
+function tableToMarkdown(table: HTMLElement): string {
+  const rows = Array.from(table.querySelectorAll("tr"))
+    .map((row) =>
+      Array.from(row.querySelectorAll("th, td")).map((cell) =>
+        (cell.textContent ?? "")
+          .replace(/\s+/g, " ")
+          .trim()
+          .replace(/\|/g, "\\|"),
+      ),
+    )
+    .filter((cells) => cells.some(Boolean));
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const toRow = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  const [header, ...body] = rows;
+  const divider = toRow(Array(width).fill("---"));
+  return `\n\n${[toRow(header), divider, ...body.map(toRow)].join("\n")}\n\n`;
+}
+
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  bulletListMarker: "-",
+  codeBlockStyle: "fenced",
+})
+  .remove(isChrome)
+  .addRule("table", {
+    filter: "table",
+    replacement: (_content, node) => tableToMarkdown(node as HTMLElement),
+  });
+
+/**
+ * Extract text blocks from an HTML page, leaving out navigation, headers,
+ * footers and other chrome
+ *
+ * @param html - The HTML source
+ * @returns The first top-level heading or the page title, and the text blocks
+ */
+export function extractHtml(html: string): ExtractedDocument {
+  const { title, blocks } = extractMarkdown(turndown.turndown(html));
+
+  // Page titles usually end with the site name: "Enrollment | PLN Schools"
+  const pageTitle = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const fallback = pageTitle
+    ? inline(turndown.turndown(pageTitle)).split(/\s+[|–—-]\s+/)[0]
+    : "";
+
+  return { title: title ?? (fallback || null), blocks };
+}
+
+/**
+ * Extract text blocks from a Word document
+ * Paragraphs styled as headings become section titles
+ *
+ * @param data - The .docx file contents
+ */
+export async function extractDocx(
+  data: Uint8Array,
+): Promise<ExtractedDocument> {
+  const { value: html } = await mammoth.convertToHtml(
+    { buffer: Buffer.from(data) },
+    { styleMap: ["p[style-name='Title'] => h1:fresh"] },
+  );
+  return extractHtml(html);
+}
+
+/**
+ * Extract a document of any supported type, by file extension
+ *
+ * @param fileName - File name, for its extension
+ * @param data - The file contents
+ */
+export async function extractDocument(
+  fileName: string,
+  data: Uint8Array,
+): Promise<ExtractedDocument> {
+  switch (extname(fileName).toLowerCase()) {
+    case ".pdf":
+      return extractPdf(data);
+    case ".md":
+    case ".markdown":
+      return extractMarkdown(new TextDecoder().decode(data));
+    case ".html":
+    case ".htm":
+      return extractHtml(new TextDecoder().decode(data));
+    case ".docx":
+      return extractDocx(data);
+    default:
+      throw new Error(`Unsupported document type: ${fileName}`);
+  }
+}
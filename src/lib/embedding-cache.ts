@@ -0,0 +1,173 @@
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { EmbeddingModel } from "ai";
+import {
+  getEmbeddingDimensions,
+  getEmbeddingModel,
+  modelConfig,
+} from "@/lib/ai-provider";
+import type { ChunkRecord } from "@/lib/chunk-records";
+import { generateEmbeddings } from "@/lib/generate-embeddings";
+
+/**
+ * Local embedding cache shared by the data scripts and the import
+ *
+ * Embeddings are keyed by a content hash of the embedding model and the
+ * chunk text, so a chunk is only embedded again when its text or the model
+ * changes. The cache is an append-only JSONL file of
+ * {"hash", "model", "embedding"} lines, loaded once per process.
+ */
+
+export const EMBEDDING_CACHE_PATH =
+  process.env.EMBEDDING_CACHE_PATH ??
+  join(process.cwd(), ".cache/embeddings.jsonl");
+
+export interface CachedEmbedding {
+  contentHash: string;
+  embedding: number[];
+}
+
+/**
+ * Hash identifying an embedding: the model name and the exact text
+ * @param modelName - Embedding model name, as used for its collection
+ * @param text - The embedded text
+ */
+export function contentHash(modelName: string, text: string): string {
+  return createHash("sha256").update(`${modelName}\n${text}`).digest("hex");
+}
+
+let cache: Promise<Map<string, number[]>> | null = null;
+
+async function loadCache(): Promise<Map<string, number[]>> {
+  const entries = new Map<string, number[]>();
+  let content: string;
+  try {
+    content = await readFile(EMBEDDING_CACHE_PATH, "utf-8");
+  } catch {
+    // No cache yet
+    return entries;
+  }
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const { hash, embedding } = JSON.parse(line);
+      if (typeof hash === "string" && Array.isArray(embedding)) {
+        entries.set(hash, embedding);
+      }
+    } catch {
+      // A line cut short by an interrupted run; it is embedded again
+    }
+  }
+  return entries;
+}
+
+/**
+ * Embed texts, reusing cached embeddings and caching new ones
+ *
+ * @param texts - Texts to embed
+ * @param modelName - Embedding model name (default: the configured model)
+ * @param model - Embedding model to use (default: the configured model)
+ * @returns One hash and embedding per text, and how many were generated
+ */
+export async function embedWithCache(
+  texts: string[],
+  modelName: string = modelConfig.embeddingModel,
+  model: EmbeddingModel = getEmbeddingModel(),
+): Promise<{ results: CachedEmbedding[]; generated: number }> {
+  cache ??= loadCache();
+  const entries = await cache;
+
+  const hashes = texts.map((text) => contentHash(modelName, text));
+  // Texts repeated in one call are embedded once
+  const missing = new Map<string, string>();
+  hashes.forEach((hash, i) => {
+    if (!entries.has(hash)) missing.set(hash, texts[i]);
+  });
+
+  if (missing.size > 0) {
+    const embeddings = await generateEmbeddings([...missing.values()], model);
+    const lines = [...missing.keys()].map((hash, i) => {
+      entries.set(hash, embeddings[i]);
+      return JSON.stringify({
+        hash,
+        model: modelName,
+        embedding: embeddings[i],
+      });
+    });
+    await mkdir(dirname(EMBEDDING_CACHE_PATH), { recursive: true });
+    await appendFile(EMBEDDING_CACHE_PATH, `${lines.join("\n")}\n`, "utf-8");
+  }
+
+  return {
+    results: hashes.map((hash) => ({
+      contentHash: hash,
+      embedding: entries.get(hash) as number[],
+    })),
+    generated: missing.size,
+  };
+}
+
+export interface EmbedChunkOptions {
+  // Keep embeddings from chunk files written before content hashes existed
+  // when they have the configured model's dimension, instead of embedding
+  // those chunks again
+  trustUnhashed?: boolean;
+}
+
+/**
+ * Stamp the current content hash on embeddings that have none
+ * Nothing shows such an embedding was made from the record's current text
+ * or by the configured model, so this is only done on request, and the
+ * vectors never go into the shared cache
+ */
+function trustUnhashedEmbeddings(records: ChunkRecord[], modelName: string) {
+  const dimensions = getEmbeddingDimensions(modelName);
+  for (const record of records) {
+    if (
+      record.embedding?.length === dimensions &&
+      record.contentHash === undefined
+    ) {
+      record.contentHash = contentHash(modelName, record.content);
+    }
+  }
+}
+
+/**
+ * Give every chunk record an embedding for the configured model
+ * Records keep their embedding while its content hash still matches; the
+ * rest, including embeddings without a hash unless trusted, are embedded
+ * from the cache or the model
+ *
+ * @param records - Chunk records, updated in place
+ * @param options - Whether to trust embeddings without a content hash
+ * @returns How many records were embedded and how many embeddings generated
+ */
+export async function embedChunkRecords(
+  records: ChunkRecord[],
+  options: EmbedChunkOptions = {},
+): Promise<{ embedded: number; generated: number }> {
+  const modelName = modelConfig.embeddingModel;
+  if (options.trustUnhashed) {
+    trustUnhashedEmbeddings(records, modelName);
+  }
+  const stale = records.filter(
+    (record) =>
+      !record.embedding ||
+      record.contentHash !== contentHash(modelName, record.content),
+  );
+  if (stale.length === 0) {
+    return { embedded: 0, generated: 0 };
+  }
+
+  const { results, generated } = await embedWithCache(
+    stale.map((record) => record.content),
+    modelName,
+  );
+  stale.forEach((record, i) => {
+    record.embedding = results[i].embedding;
+    record.contentHash = results[i].contentHash;
+  });
+  return { embedded: stale.length, generated };
+}
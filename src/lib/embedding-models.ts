@@ -0,0 +1,144 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { embeddingModels } from "@/db/schema";
+import { getEmbeddingDimensions, modelConfig } from "@/lib/ai-provider";
+
+export type EmbeddingCollection = typeof embeddingModels.$inferSelect;
+
+// Model names are interpolated into index DDL, so keep them to safe characters
+const MODEL_NAME_PATTERN = /^[\w.:/-]+$/;
+
+function assertModelName(name: string) {
+  if (!MODEL_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid embedding model name: "${name}"`);
+  }
+}
+
+/**
+ * Look up an embedding collection by model name
+ * @param name - Embedding model name
+ * @returns The collection, or null if the corpus was never embedded with it
+ */
+export async function findEmbeddingCollection(
+  name: string,
+): Promise<EmbeddingCollection | null> {
+  const [collection] = await db
+    .select()
+    .from(embeddingModels)
+    .where(eq(embeddingModels.name, name));
+  return collection ?? null;
+}
+
+/**
+ * Create the collection for a model if it does not exist yet
+ * Fails if the model is already registered with a different dimension
+ *
+ * @param collection - Model name, provider and dimension
+ * @returns The stored collection
+ */
+export async function registerEmbeddingCollection(collection: {
+  name: string;
+  provider: string;
+  dimensions: number;
+  status?: EmbeddingCollection["status"];
+}): Promise<EmbeddingCollection> {
+  assertModelName(collection.name);
+
+  const existing = await findEmbeddingCollection(collection.name);
+  if (existing) {
+    if (existing.dimensions !== collection.dimensions) {
+      throw new Error(
+        `Embedding model "${collection.name}" is stored with ${existing.dimensions} dimensions, not ${collection.dimensions}`,
+      );
+    }
+    return existing;
+  }
+
+  const [created] = await db
+    .insert(embeddingModels)
+    .values(collection)
+    .returning();
+  return created;
+}
+
+/**
+ * Update a collection's lifecycle status
+ */
+export async function setEmbeddingCollectionStatus(
+  name: string,
+  status: EmbeddingCollection["status"],
+) {
+  await db
+    .update(embeddingModels)
+    .set({ status })
+    .where(eq(embeddingModels.name, name));
+}
+
+/**
+ * Create the partial HNSW index for a collection
+ * pgvector can only index a fixed dimension, so each model gets its own
+ * expression index restricted to its rows
+ */
+export async function ensureEmbeddingIndex(collection: EmbeddingCollection) {
+  assertModelName(collection.name);
+
+  const indexName = `chunk_embeddings_${collection.name.replace(/\W/g, "_")}_idx`;
+  await db.execute(
+    sql.raw(
+      `CREATE INDEX IF NOT EXISTS "${indexName}" ON "chunk_embeddings" USING hnsw (("embedding"::vector(${collection.dimensions})) vector_cosine_ops) WHERE "model" = '${collection.name}'`,
+    ),
+  );
+}
+
+/**
+ * Check an embedding against its collection's dimension
+ */
+export function validateEmbedding(
+  embedding: number[],
+  collection: Pick<EmbeddingCollection, "name" | "dimensions">,
+) {
+  if (
+    !Array.isArray(embedding) ||
+    embedding.length !== collection.dimensions ||
+    !embedding.every(Number.isFinite)
+  ) {
+    throw new Error(
+      `Invalid embedding for "${collection.name}": expected ${collection.dimensions} numbers, got ${
+        Array.isArray(embedding) ? embedding.length : typeof embedding
+      }`,
+    );
+  }
+}
+
+/**
+ * Register (if needed) the collection for the configured embedding model
+ */
+export async function registerConfiguredCollection(): Promise<EmbeddingCollection> {
+  return registerEmbeddingCollection({
+    name: modelConfig.embeddingModel,
+    provider: modelConfig.embeddingProvider,
+    dimensions: getEmbeddingDimensions(modelConfig.embeddingModel),
+    status: "ready",
+  });
+}
+
+let servingCollection: Promise<EmbeddingCollection> | null = null;
+
+/**
+ * The collection search runs against: the configured EMBEDDING_MODEL
+ * Queries must be embedded with the same model, so the collection must be ready
+ */
+export function getServingCollection(): Promise<EmbeddingCollection> {
+  servingCollection ??= findEmbeddingCollection(
+    modelConfig.embeddingModel,
+  ).then((collection) => {
+    if (!collection || collection.status !== "ready") {
+      servingCollection = null;
+      throw new Error(
+        `Embedding model "${modelConfig.embeddingModel}" has no ready collection; run the re-embed script first`,
+      );
+    }
+    return collection;
+  });
+  return servingCollection;
+}
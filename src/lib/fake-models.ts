@@ -0,0 +1,169 @@
+import type {
+  EmbeddingModelV3,
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+} from "@ai-sdk/provider";
+import { simulateReadableStream } from "ai";
+
+/**
+ * Deterministic stand-ins for the chat and embedding models
+ * Used in development and tests so the app runs without API keys or network
+ */
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+}
+
+const EMPTY_USAGE: LanguageModelV3Usage = {
+  inputTokens: {
+    total: 0,
+    noCache: 0,
+    cacheRead: undefined,
+    cacheWrite: undefined,
+  },
+  outputTokens: { total: 0, text: 0, reasoning: undefined },
+};
+
+function getLastUserText(options: LanguageModelV3CallOptions): string {
+  const lastUser = [...options.prompt]
+    .reverse()
+    .find((message) => message.role === "user");
+  if (!lastUser) return "";
+
+  return lastUser.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
+
+/**
+ * Build a value that satisfies a JSON schema, using the prompt for strings
+ */
+function fakeValue(schema: JsonSchema, text: string): unknown {
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          fakeValue(value, text),
+        ]),
+      );
+    case "array":
+      return [];
+    case "string":
+      return text;
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return true;
+    default:
+      return null;
+  }
+}
+
+function fakeResponse(options: LanguageModelV3CallOptions): string {
+  const text = `[fake] ${getLastUserText(options)}`;
+
+  if (options.responseFormat?.type === "json") {
+    return JSON.stringify(
+      fakeValue((options.responseFormat.schema ?? {}) as JsonSchema, text),
+    );
+  }
+
+  return text;
+}
+
+/**
+ * Chat model that echoes the latest user message
+ * JSON requests get an object shaped by the requested schema
+ */
+export function createFakeChatModel(modelId: string): LanguageModelV3 {
+  return {
+    specificationVersion: "v3",
+    provider: "fake",
+    modelId,
+    supportedUrls: {},
+    async doGenerate(options) {
+      return {
+        content: [{ type: "text", text: fakeResponse(options) }],
+        finishReason: { unified: "stop", raw: undefined },
+        usage: EMPTY_USAGE,
+        warnings: [],
+      };
+    },
+    async doStream(options) {
+      const words = fakeResponse(options).split(/(?<= )/);
+      const chunks: LanguageModelV3StreamPart[] = [
+        { type: "stream-start", warnings: [] },
+        { type: "text-start", id: "0" },
+        ...words.map(
+          (delta): LanguageModelV3StreamPart => ({
+            type: "text-delta",
+            id: "0",
+            delta,
+          }),
+        ),
+        { type: "text-end", id: "0" },
+        {
+          type: "finish",
+          finishReason: { unified: "stop", raw: undefined },
+          usage: EMPTY_USAGE,
+        },
+      ];
+
+      return { stream: simulateReadableStream({ chunks }) };
+    },
+  };
+}
+
+// FNV-1a, so the same token always lands in the same dimension
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embedding model that hashes word tokens into a normalized vector
+ * Texts that share words get similar vectors, which is enough for dev search
+ */
+export function createFakeEmbeddingModel(
+  modelId: string,
+  dimensions = 1536,
+): EmbeddingModelV3 {
+  const embed = (value: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const token of tokens) {
+      const hash = hashToken(token);
+      vector[hash % dimensions] += hash & 1 ? 1 : -1;
+    }
+
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map((x) => x / norm);
+  };
+
+  return {
+    specificationVersion: "v3",
+    provider: "fake",
+    modelId,
+    maxEmbeddingsPerCall: undefined,
+    supportsParallelCalls: true,
+    async doEmbed({ values }) {
+      return { embeddings: values.map(embed), warnings: [] };
+    },
+  };
+}
@@ -1,14 +1,19 @@
-import { openai } from "@ai-sdk/openai";
-import { embedMany } from "ai";
+import { type EmbeddingModel, embedMany } from "ai";
+import { getEmbeddingModel } from "@/lib/ai-provider";
 
 /**
- * Generate embeddings for multiple text chunks using OpenAI
- * Uses text-embedding-3-small model (1536 dimensions)
+ * Generate embeddings for multiple text chunks
+ * Uses the embedding model configured in the provider registry
+ * (default: OpenAI text-embedding-3-small, 1536 dimensions)
  *
  * @param texts - Array of text strings to embed
- * @returns Array of embedding vectors (1536 dimensions each)
+ * @param model - Embedding model to use (default: the configured model)
+ * @returns Array of embedding vectors, one per text
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+export async function generateEmbeddings(
+  texts: string[],
+  model: EmbeddingModel = getEmbeddingModel(),
+): Promise<number[][]> {
   if (texts.length === 0) {
     return [];
   }
@@ -21,7 +26,7 @@ export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
 
   try {
     const { embeddings } = await embedMany({
-      model: openai.embedding("text-embedding-3-small"),
+      model,
       values: texts,
     });
 
@@ -38,7 +43,7 @@ export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
  * Generate a single embedding for a text chunk
  *
  * @param text - Text string to embed
- * @returns Embedding vector (1536 dimensions)
+ * @returns Embedding vector
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   const [embedding] = await generateEmbeddings([text]);
@@ -0,0 +1,236 @@
+import type { LanguageCode } from "@/lib/languages";
+import type { TopicId } from "@/lib/topics";
+
+interface TopicMessages {
+  label: string;
+  // Starter questions shown when the topic is picked
+  questions: string[];
+}
+
+/**
+ * Kiosk UI strings
+ * Every language in LANGUAGES needs a full set; English defines the shape
+ */
+
+const en = {
+  header: {
+    title: "Digital Family Resource Navigator",
+    subtitle: "Ask a question about our programs, services, and resources.",
+  },
+  roles: {
+    prompt: "To Get Started Select Your Role",
+    staff: "Staff Member",
+    student: "Student",
+    parent: "Parent",
+  },
+  staffPin: {
+    label: "Staff PIN",
+    submit: "Continue",
+    back: "Back",
+    invalid: "That PIN is not right. Please try again.",
+  },
+  language: {
+    label: "Language",
+  },
+  notice: {
+    title: "Notice",
+    scope:
+      "The Digital Family Resource Navigator is not intended to replace staff, assist with complex questions, or provide personalized advice.",
+    personalInfo:
+      "Do not include any personal information in your questions, such as your name, address, phone number, email address, or any other identifying information.",
+    redaction:
+      "We do not store any conversation history. Names, phone numbers, email addresses, street addresses, student IDs and dates of birth are removed from your questions before they are sent to the model, which may be managed by a third-party.",
+  },
+  chat: {
+    inputLabel: "Question input",
+    placeholder: "Type your question here...",
+    ask: "Ask",
+    startOver: "Start Over",
+    error:
+      "Something went wrong. Please try again or ask a staff member for help.",
+    staffReferral: "Please visit the front desk — a staff member can help you.",
+    sources: "Source:",
+    showSource: (reference: number) => `Show source ${reference}`,
+  },
+  topics: {
+    prompt: "Pick a topic to get started, or type your own question",
+    starters: "Try asking:",
+    clear: "All topics",
+    current: "Topic:",
+    items: {
+      enrollment: {
+        label: "Enrollment",
+        questions: [
+          "How do I enroll my child?",
+          "What documents do I need to register?",
+        ],
+      },
+      "before-after-care": {
+        label: "Before & After Care",
+        questions: [
+          "Is there a before or after school program?",
+          "Are there physical activities after school?",
+        ],
+      },
+      lunch: {
+        label: "Lunch",
+        questions: [
+          "What kind of food is served at lunch?",
+          "How much time do students have to eat lunch?",
+        ],
+      },
+      wellness: {
+        label: "Wellness",
+        questions: [
+          "How many minutes of P.E. do students get?",
+          "What foods are allowed at class celebrations?",
+        ],
+      },
+      counseling: {
+        label: "Counseling & Support",
+        questions: [
+          "What should I do if my child is being bullied?",
+          "How do I report harassment?",
+        ],
+      },
+    } satisfies Record<TopicId, TopicMessages>,
+  },
+  contacts: {
+    heading: "Who to contact",
+    phone: "Phone",
+    email: "Email",
+    office: "Office",
+    hours: "Hours",
+  },
+  readAloud: {
+    start: "Read to me",
+    stop: "Stop reading",
+  },
+  speech: {
+    start: "Speak your question",
+    stop: "Stop recording",
+    transcribing: "Listening...",
+    error:
+      "Sorry, I couldn't understand that. Please try again or type your question.",
+    unavailable:
+      "The microphone is not available. Please type your question instead.",
+  },
+};
+
+export type UIMessages = typeof en;
+
+const es: UIMessages = {
+  header: {
+    title: "Navegador Digital de Recursos Familiares",
+    subtitle:
+      "Haga una pregunta sobre nuestros programas, servicios y recursos.",
+  },
+  roles: {
+    prompt: "Para comenzar, seleccione su función",
+    staff: "Personal",
+    student: "Estudiante",
+    parent: "Padre o madre",
+  },
+  staffPin: {
+    label: "PIN del personal",
+    submit: "Continuar",
+    back: "Regresar",
+    invalid: "Ese PIN no es correcto. Inténtelo de nuevo.",
+  },
+  language: {
+    label: "Idioma",
+  },
+  notice: {
+    title: "Aviso",
+    scope:
+      "El Navegador Digital de Recursos Familiares no reemplaza al personal, no atiende preguntas complejas y no ofrece consejos personalizados.",
+    personalInfo:
+      "No incluya información personal en sus preguntas, como su nombre, dirección, número de teléfono, correo electrónico u otros datos que lo identifiquen.",
+    redaction:
+      "No guardamos el historial de conversaciones. Los nombres, números de teléfono, correos electrónicos, direcciones, números de identificación estudiantil y fechas de nacimiento se eliminan de sus preguntas antes de enviarlas al modelo, que puede ser administrado por un tercero.",
+  },
+  chat: {
+    inputLabel: "Escriba su pregunta",
+    placeholder: "Escriba su pregunta aquí...",
+    ask: "Preguntar",
+    startOver: "Empezar de nuevo",
+    error:
+      "Algo salió mal. Por favor, inténtelo de nuevo o pida ayuda a un miembro del personal.",
+    staffReferral:
+      "Por favor, acuda a la recepción — un miembro del personal puede ayudarle.",
+    sources: "Fuente:",
+    showSource: (reference: number) => `Mostrar fuente ${reference}`,
+  },
+  topics: {
+    prompt: "Elija un tema para comenzar o escriba su propia pregunta",
+    starters: "Pruebe a preguntar:",
+    clear: "Todos los temas",
+    current: "Tema:",
+    items: {
+      enrollment: {
+        label: "Inscripción",
+        questions: [
+          "¿Cómo inscribo a mi hijo?",
+          "¿Qué documentos necesito para la inscripción?",
+        ],
+      },
+      "before-after-care": {
+        label: "Cuidado antes y después de clases",
+        questions: [
+          "¿Hay un programa antes o después de clases?",
+          "¿Hay actividades físicas después de clases?",
+        ],
+      },
+      lunch: {
+        label: "Almuerzo",
+        questions: [
+          "¿Qué tipo de comida se sirve en el almuerzo?",
+          "¿Cuánto tiempo tienen los estudiantes para almorzar?",
+        ],
+      },
+      wellness: {
+        label: "Bienestar",
+        questions: [
+          "¿Cuántos minutos de educación física reciben los estudiantes?",
+          "¿Qué alimentos se permiten en las celebraciones de la clase?",
+        ],
+      },
+      counseling: {
+        label: "Consejería y apoyo",
+        questions: [
+          "¿Qué debo hacer si mi hijo sufre acoso escolar?",
+          "¿Cómo denuncio el acoso?",
+        ],
+      },
+    },
+  },
+  contacts: {
+    heading: "A quién contactar",
+    phone: "Teléfono",
+    email: "Correo electrónico",
+    office: "Oficina",
+    hours: "Horario",
+  },
+  readAloud: {
+    start: "Léemelo",
+    stop: "Dejar de leer",
+  },
+  speech: {
+    start: "Diga su pregunta",
+    stop: "Detener la grabación",
+    transcribing: "Escuchando...",
+    error:
+      "Lo siento, no pude entender. Por favor, inténtelo de nuevo o escriba su pregunta.",
+    unavailable:
+      "El micrófono no está disponible. Por favor, escriba su pregunta.",
+  },
+};
+
+const UI_MESSAGES: Record<LanguageCode, UIMessages> = { en, es };
+
+/**
+ * UI strings for a language
+ */
+export function getUIMessages(language: LanguageCode): UIMessages {
+  return UI_MESSAGES[language];
+}
@@ -1,85 +1,100 @@
+import { and, eq, inArray, ne, or, sql } from "drizzle-orm";
 import { db } from "@/db";
-import { documents, textChunks } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
-import { readFile } from "node:fs/promises";
-import { sql } from "drizzle-orm";
-
-interface TSVRow {
-  documentTitle: string;
-  sourceUrl: string;
-  sectionTitle: string;
-  chunkContent: string;
+import { chunkEmbeddings, documents, textChunks } from "@/db/schema";
+import { modelConfig } from "@/lib/ai-provider";
+import { type ChunkRecord, readChunkRecords } from "@/lib/chunk-records";
+import { embedChunkRecords } from "@/lib/embedding-cache";
+import {
+  ensureEmbeddingIndex,
+  registerConfiguredCollection,
+  validateEmbedding,
+} from "@/lib/embedding-models";
+
+type EmbeddedRecord = ChunkRecord & {
   embedding: number[];
-}
+  contentHash: string;
+};
 
 /**
- * Parse a TSV file containing document chunks
- * @param filepath - Path to the TSV file
- * @returns Array of parsed rows
+ * Record that a document replaces an earlier version, found by title or
+ * source URL. When several match, the most recent version is replaced
  */
-async function parseTSV(filepath: string): Promise<TSVRow[]> {
-  const content = await readFile(filepath, "utf-8");
-  const lines = content.split("\n").filter((line) => line.trim());
-
-  // Remove header and comment lines
-  const dataLines = lines.filter(
-    (line) => !line.startsWith("#") && !line.startsWith("document_title"),
-  );
-
-  return dataLines.map((line) => {
-    const [documentTitle, sourceUrl, sectionTitle, chunkContent, embeddingStr] =
-      line.split("\t");
-
-    if (!documentTitle || !chunkContent || !embeddingStr) {
-      throw new Error(`Invalid TSV row: missing required fields in "${line}"`);
-    }
+async function linkSupersededDocument(documentId: string, supersedes: string) {
+  const [previous] = await db
+    .select({ id: documents.id, title: documents.title })
+    .from(documents)
+    .where(
+      and(
+        or(
+          eq(documents.title, supersedes),
+          eq(documents.sourceUrl, supersedes),
+        ),
+        ne(documents.id, documentId),
+      ),
+    )
+    .orderBy(sql`${documents.effectiveFrom} DESC NULLS LAST`)
+    .limit(1);
 
-    let embedding: number[];
-    try {
-      embedding = JSON.parse(embeddingStr);
-      if (!Array.isArray(embedding) || embedding.length !== 1536) {
-        throw new Error("Embedding must be an array of 1536 numbers");
-      }
-    } catch (error) {
-      throw new Error(
-        `Invalid embedding format in row for "${documentTitle}": ${error}`,
-      );
-    }
+  if (!previous) {
+    console.warn(`  ⚠️  No earlier version found for "${supersedes}"`);
+    return;
+  }
 
-    return {
-      documentTitle: documentTitle.trim(),
-      sourceUrl: sourceUrl?.trim() || "",
-      sectionTitle: sectionTitle?.trim() || "",
-      chunkContent: chunkContent.trim(),
-      embedding,
-    };
-  });
+  await db
+    .update(documents)
+    .set({ supersedesId: previous.id })
+    .where(eq(documents.id, documentId));
+  console.log(`  Superseded document: "${previous.title}"`);
 }
 
 interface ImportOptions {
-  updateExisting?: boolean; // If true, update existing chunks instead of skipping
+  updateExisting?: boolean; // If true, update unchanged chunks' metadata too
+  trustEmbeddings?: boolean; // If true, keep embeddings without a content hash
 }
 
 /**
- * Import document chunks from a TSV file into the database
- * This function is re-runnable - it will skip documents/chunks that already exist
- * unless updateExisting is true
+ * Import document chunks from a JSONL chunk file into the database
+ * This function is re-runnable. A chunk is identified by its document and
+ * its position among the document's chunks in the file: edited text replaces
+ * the row at that position, and rows past the end of a document that got
+ * shorter are deleted. Unchanged chunks are skipped unless updateExisting is
+ * true
+ *
+ * Embeddings are stored in the collection for the configured embedding model
+ * and validated against its dimension. Chunks without an embedding, or whose
+ * content hash does not match the text and model, are embedded first through
+ * the local embedding cache. Embeddings without a hash are embedded again
+ * unless trustEmbeddings is true
  *
- * @param filepath - Path to the TSV file
+ * @param filepath - Path to the .jsonl file
  * @param options - Import options
  * @returns Summary of imported items
  */
-export async function importChunksFromTSV(
+export async function importChunks(
   filepath: string,
   options: ImportOptions = {},
 ) {
-  const { updateExisting = false } = options;
-  const rows = await parseTSV(filepath);
+  const { updateExisting = false, trustEmbeddings = false } = options;
+  const records = await readChunkRecords(filepath);
+  const { embedded, generated } = await embedChunkRecords(records, {
+    trustUnhashed: trustEmbeddings,
+  });
+  if (embedded > 0) {
+    console.log(
+      `  Embedded ${embedded} new or changed chunks, ${generated} generated (${modelConfig.embeddingProvider} ${modelConfig.embeddingModel})`,
+    );
+  }
+  const rows = records as EmbeddedRecord[];
+
+  const collection = await registerConfiguredCollection();
+  for (const row of rows) {
+    validateEmbedding(row.embedding, collection);
+  }
 
   // Group rows by document
-  const documentGroups = new Map<string, TSVRow[]>();
+  const documentGroups = new Map<string, EmbeddedRecord[]>();
   for (const row of rows) {
-    const key = `${row.documentTitle}|${row.sourceUrl}`;
+    const key = `${row.document.title}|${row.document.sourceUrl ?? ""}`;
     if (!documentGroups.has(key)) {
       documentGroups.set(key, []);
     }
@@ -90,10 +105,24 @@ export async function importChunksFromTSV(
   let chunksCreated = 0;
   let chunksUpdated = 0;
   let chunksSkipped = 0;
+  let chunksDeleted = 0;
+  let embeddingsRefreshed = 0;
+  // Resolved after every document exists, since an earlier version may be
+  // imported from the same file
+  const supersessions: { documentId: string; supersedes: string }[] = [];
 
   // Process each document group
   for (const [_key, chunks] of documentGroups) {
-    const firstChunk = chunks[0];
+    const { title, sourceUrl } = chunks[0].document;
+    // Document metadata may be given on any of its rows
+    const documentInfo = chunks.map((chunk) => chunk.document);
+    const metadata = {
+      tags: [...new Set(documentInfo.flatMap((info) => info.tags ?? []))],
+      effectiveFrom: documentInfo.find((info) => info.effectiveFrom)
+        ?.effectiveFrom,
+      effectiveTo: documentInfo.find((info) => info.effectiveTo)?.effectiveTo,
+    };
+    const supersedes = documentInfo.find((info) => info.supersedes)?.supersedes;
 
     // Find or create document
     const existingDocs = await db
@@ -101,9 +130,9 @@ export async function importChunksFromTSV(
       .from(documents)
       .where(
         and(
-          eq(documents.title, firstChunk.documentTitle),
-          firstChunk.sourceUrl
-            ? eq(documents.sourceUrl, firstChunk.sourceUrl)
+          eq(documents.title, title),
+          sourceUrl
+            ? eq(documents.sourceUrl, sourceUrl)
             : sql`${documents.sourceUrl} IS NULL`,
         ),
       );
@@ -112,80 +141,202 @@ export async function importChunksFromTSV(
 
     if (existingDocs.length > 0) {
       documentId = existingDocs[0].id;
-      console.log(`  Found existing document: "${firstChunk.documentTitle}"`);
+      console.log(`  Found existing document: "${title}"`);
+      if (updateExisting) {
+        await db
+          .update(documents)
+          .set({
+            tags: metadata.tags,
+            effectiveFrom: metadata.effectiveFrom ?? null,
+            effectiveTo: metadata.effectiveTo ?? null,
+          })
+          .where(eq(documents.id, documentId));
+        if (supersedes) {
+          supersessions.push({ documentId, supersedes });
+        }
+      }
     } else {
       const [newDoc] = await db
         .insert(documents)
         .values({
-          title: firstChunk.documentTitle,
-          sourceUrl: firstChunk.sourceUrl || null,
+          title,
+          sourceUrl: sourceUrl || null,
+          ...metadata,
         })
         .returning();
       documentId = newDoc.id;
+      if (supersedes) {
+        supersessions.push({ documentId, supersedes });
+      }
       documentsCreated++;
-      console.log(`  Created document: "${firstChunk.documentTitle}"`);
+      console.log(`  Created document: "${title}"`);
     }
 
-    // Insert or update chunks for this document
-    for (const chunk of chunks) {
-      // Convert embedding to PostgreSQL vector format
-      const embeddingStr = `[${chunk.embedding.join(",")}]`;
-
-      // Check if chunk already exists (by content)
-      const existingChunks = await db
-        .select()
-        .from(textChunks)
-        .where(
-          and(
-            eq(textChunks.documentId, documentId),
-            eq(textChunks.content, chunk.chunkContent),
-          ),
+    // Existing chunks of this document, with their embedding for this model
+    const existingChunks = await db
+      .select({
+        id: textChunks.id,
+        position: textChunks.position,
+        content: textChunks.content,
+        embeddedChunkId: chunkEmbeddings.chunkId,
+        contentHash: chunkEmbeddings.contentHash,
+      })
+      .from(textChunks)
+      .leftJoin(
+        chunkEmbeddings,
+        and(
+          eq(chunkEmbeddings.chunkId, textChunks.id),
+          eq(chunkEmbeddings.model, collection.name),
+        ),
+      )
+      .where(eq(textChunks.documentId, documentId));
+    const byPosition = new Map(
+      existingChunks
+        .filter((existing) => existing.position !== null)
+        .map((existing) => [existing.position, existing]),
+    );
+    // Rows imported before positions were recorded are matched by content
+    const unpositioned = existingChunks.filter(
+      (existing) => existing.position === null,
+    );
+
+    // Insert or update chunks for this document, identified by position
+    for (const [position, chunk] of chunks.entries()) {
+      let existing = byPosition.get(position);
+      if (!existing) {
+        const index = unpositioned.findIndex(
+          (row) => row.content === chunk.content,
         );
+        existing = index === -1 ? undefined : unpositioned.splice(index, 1)[0];
+      }
 
-      if (existingChunks.length > 0) {
-        if (updateExisting) {
-          // Update the existing chunk
-          await db
-            .update(textChunks)
-            .set({
-              sectionTitle: chunk.sectionTitle || null,
-              embedding: sql`${embeddingStr}::vector`,
-            })
-            .where(eq(textChunks.id, existingChunks[0].id));
-          chunksUpdated++;
-        } else {
-          chunksSkipped++;
-        }
+      const fields = {
+        sectionTitle: chunk.section || null,
+        content: chunk.content,
+        audience: chunk.metadata?.audience?.length
+          ? chunk.metadata.audience
+          : null,
+        page: chunk.metadata?.page ?? null,
+        position,
+      };
+
+      if (!existing) {
+        // Insert new chunk
+        const [newChunk] = await db
+          .insert(textChunks)
+          .values({ documentId, ...fields })
+          .returning({ id: textChunks.id });
+        await db.insert(chunkEmbeddings).values({
+          chunkId: newChunk.id,
+          model: collection.name,
+          embedding: chunk.embedding,
+          contentHash: chunk.contentHash,
+        });
+        chunksCreated++;
         continue;
       }
 
-      // Insert new chunk
-      await db.insert(textChunks).values({
-        documentId,
-        sectionTitle: chunk.sectionTitle || null,
-        content: chunk.chunkContent,
-        embedding: sql`${embeddingStr}::vector`,
-      });
+      // Edited text always replaces the old text, so no stale row stays
+      // searchable; other fields only change with updateExisting
+      const edited = existing.content !== chunk.content;
+      if (edited || updateExisting || existing.position !== position) {
+        await db
+          .update(textChunks)
+          .set(fields)
+          .where(eq(textChunks.id, existing.id));
+      }
+      if (edited || updateExisting) {
+        chunksUpdated++;
+      } else {
+        chunksSkipped++;
+      }
+
+      if (
+        !edited &&
+        existing.embeddedChunkId !== null &&
+        existing.contentHash === null
+      ) {
+        // Stored before content hashes existed, from this same text
+        await db
+          .update(chunkEmbeddings)
+          .set({ contentHash: chunk.contentHash })
+          .where(
+            and(
+              eq(chunkEmbeddings.chunkId, existing.id),
+              eq(chunkEmbeddings.model, collection.name),
+            ),
+          );
+      } else if (existing.contentHash !== chunk.contentHash) {
+        // Fill in an embedding if this model has none for the chunk, or
+        // replace one made from other text
+        await db
+          .insert(chunkEmbeddings)
+          .values({
+            chunkId: existing.id,
+            model: collection.name,
+            embedding: chunk.embedding,
+            contentHash: chunk.contentHash,
+          })
+          .onConflictDoUpdate({
+            target: [chunkEmbeddings.chunkId, chunkEmbeddings.model],
+            set: {
+              embedding: chunk.embedding,
+              contentHash: chunk.contentHash,
+            },
+          });
+        embeddingsRefreshed++;
+      }
+    }
 
-      chunksCreated++;
+    // Chunks no longer in the file: past the end of a shorter document, or
+    // unpositioned rows whose text is gone
+    const removed = [
+      ...existingChunks.filter(
+        (existing) =>
+          existing.position !== null && existing.position >= chunks.length,
+      ),
+      ...unpositioned,
+    ];
+    if (removed.length > 0) {
+      await db.delete(textChunks).where(
+        inArray(
+          textChunks.id,
+          removed.map((existing) => existing.id),
+        ),
+      );
+      chunksDeleted += removed.length;
     }
   }
 
+  await ensureEmbeddingIndex(collection);
+
+  for (const { documentId, supersedes } of supersessions) {
+    await linkSupersededDocument(documentId, supersedes);
+  }
+
   const summary = {
     documentsCreated,
     chunksCreated,
     chunksUpdated,
     chunksSkipped,
+    chunksDeleted,
+    embeddingsRefreshed,
     totalRows: rows.length,
   };
 
   console.log("\nImport Summary:");
   console.log(`  Documents created: ${documentsCreated}`);
   console.log(`  Chunks created: ${chunksCreated}`);
-  if (updateExisting) {
+  if (updateExisting || chunksUpdated > 0) {
     console.log(`  Chunks updated: ${chunksUpdated}`);
   }
-  console.log(`  Chunks skipped (duplicates): ${chunksSkipped}`);
+  console.log(`  Chunks skipped (unchanged): ${chunksSkipped}`);
+  if (chunksDeleted > 0) {
+    console.log(`  Chunks deleted: ${chunksDeleted}`);
+  }
+  if (embeddingsRefreshed > 0) {
+    console.log(`  Embeddings refreshed: ${embeddingsRefreshed}`);
+  }
   console.log(`  Total rows processed: ${rows.length}`);
 
   return summary;
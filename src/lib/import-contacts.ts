@@ -0,0 +1,114 @@
+import { readFile } from "node:fs/promises";
+import { and, eq, type SQL, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { contacts } from "@/db/schema";
+
+type ContactRow = Omit<typeof contacts.$inferInsert, "id">;
+
+// Header columns, in the order used when a file has no header row
+const COLUMNS = [
+  "program",
+  "role",
+  "name",
+  "phone",
+  "email",
+  "office_location",
+  "hours",
+  "source_url",
+] as const;
+
+/**
+ * Parse a TSV file of directory contacts
+ * @param filepath - Path to the TSV file
+ * @returns Array of parsed rows
+ */
+async function parseContactsTSV(filepath: string): Promise<ContactRow[]> {
+  const content = await readFile(filepath, "utf-8");
+  const lines = content.split("\n").filter((line) => line.trim());
+
+  // Remove comment lines, then the header
+  const header = lines.find((line) => line.startsWith("program\t"));
+  const columns = header?.trim().split("\t") ?? [...COLUMNS];
+  const dataLines = lines.filter(
+    (line) => !line.startsWith("#") && line !== header,
+  );
+
+  return dataLines.map((line) => {
+    const cells = line.split("\t");
+    const cell = (column: (typeof COLUMNS)[number]) => {
+      const index = columns.indexOf(column);
+      return (index === -1 ? "" : cells[index]?.trim()) || null;
+    };
+
+    const program = cell("program");
+    if (!program) {
+      throw new Error(`Invalid contacts row: missing program in "${line}"`);
+    }
+    if (!cell("phone") && !cell("email") && !cell("office_location")) {
+      throw new Error(
+        `Invalid contacts row for "${program}": needs a phone, email or office location`,
+      );
+    }
+
+    return {
+      program,
+      role: cell("role"),
+      name: cell("name"),
+      phone: cell("phone"),
+      email: cell("email"),
+      officeLocation: cell("office_location"),
+      hours: cell("hours"),
+      sourceUrl: cell("source_url"),
+    };
+  });
+}
+
+function matchesNullable(
+  column: typeof contacts.role | typeof contacts.name,
+  value: string | null | undefined,
+): SQL {
+  return value ? eq(column, value) : sql`${column} IS NULL`;
+}
+
+/**
+ * Import directory contacts from a TSV file into the database
+ * Re-runnable: a contact with the same program, role and name is updated in
+ * place instead of duplicated
+ *
+ * @param filepath - Path to the TSV file
+ * @returns Summary of imported contacts
+ */
+export async function importContactsFromTSV(filepath: string) {
+  const rows = await parseContactsTSV(filepath);
+
+  let contactsCreated = 0;
+  let contactsUpdated = 0;
+
+  for (const row of rows) {
+    const [existing] = await db
+      .select({ id: contacts.id })
+      .from(contacts)
+      .where(
+        and(
+          eq(contacts.program, row.program),
+          matchesNullable(contacts.role, row.role),
+          matchesNullable(contacts.name, row.name),
+        ),
+      );
+
+    if (existing) {
+      await db.update(contacts).set(row).where(eq(contacts.id, existing.id));
+      contactsUpdated++;
+    } else {
+      await db.insert(contacts).values(row);
+      contactsCreated++;
+    }
+  }
+
+  console.log("\nImport Summary:");
+  console.log(`  Contacts created: ${contactsCreated}`);
+  console.log(`  Contacts updated: ${contactsUpdated}`);
+  console.log(`  Total rows processed: ${rows.length}`);
+
+  return { contactsCreated, contactsUpdated, totalRows: rows.length };
+}
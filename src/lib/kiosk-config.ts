@@ -0,0 +1,25 @@
+import { type ReadAloudMode, speechConfig } from "@/lib/speech-synthesis";
+import { staffPinConfigured } from "@/lib/staff-access";
+import { transcriptionConfig } from "@/lib/transcription";
+
+/**
+ * Per-deployment kiosk features, read on the server and passed to the client
+ */
+export interface KioskConfig {
+  // Show the microphone button (needs a transcriber)
+  speechInput: boolean;
+  // How "Read to me" speaks answers
+  readAloud: ReadAloudMode;
+  // Read each answer aloud automatically in student mode
+  autoReadAloudForStudents: boolean;
+  // Ask for the staff PIN before staff mode (needs STAFF_PIN)
+  staffPin: boolean;
+}
+
+export const kioskConfig: KioskConfig = {
+  speechInput: transcriptionConfig.transcriber !== "off",
+  readAloud: speechConfig.mode,
+  autoReadAloudForStudents:
+    speechConfig.mode !== "off" && speechConfig.autoPlayForStudents,
+  staffPin: staffPinConfigured,
+};
@@ -0,0 +1,52 @@
+/**
+ * Languages the kiosk answers in
+ *
+ * The documents are in English; questions in other languages are translated
+ * for retrieval and answered in the user's language. To add a language, add
+ * an entry here with its fixed fallback message, and a staff-approved
+ * translation of the crisis responses in crisis-resources.ts.
+ */
+
+export interface Language {
+  code: string;
+  // English name, used in model prompts
+  name: string;
+  // Name in the language itself, for language pickers
+  nativeName: string;
+  // Shown when no documents match, without calling the model
+  noResultsMessage: string;
+}
+
+export const LANGUAGES = {
+  en: {
+    code: "en",
+    name: "English",
+    nativeName: "English",
+    noResultsMessage:
+      "I don't have information about that in my resources. Please ask a staff member for help.",
+  },
+  es: {
+    code: "es",
+    name: "Spanish",
+    nativeName: "Español",
+    noResultsMessage:
+      "No tengo información sobre eso en mis recursos. Por favor, pida ayuda a un miembro del personal.",
+  },
+} satisfies Record<string, Language>;
+
+export type LanguageCode = keyof typeof LANGUAGES;
+
+// Language of the indexed documents
+export const CORPUS_LANGUAGE: LanguageCode = "en";
+
+// Language the kiosk starts in, and returns to when a session resets
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+/**
+ * Check a language code against the configured languages
+ */
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === "string" && value in LANGUAGES;
+}
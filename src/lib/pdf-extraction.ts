@@ -0,0 +1,201 @@
+import { extractTextItems, getDocumentProxy, getMeta } from "unpdf";
+
+/**
+ * A paragraph or list item extracted from a PDF, under the heading that
+ * precedes it
+ */
+export interface PdfBlock {
+  sectionTitle: string;
+  text: string;
+  // 1-based page the block starts on
+  page: number;
+}
+
+export interface ExtractedPdf {
+  // Title from the PDF metadata, when it has a meaningful one
+  title: string | null;
+  blocks: PdfBlock[];
+}
+
+interface PdfLine {
+  text: string;
+  fontSize: number;
+  y: number;
+  page: number;
+}
+
+// Lines this much larger than the body text are headings
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+
+const BULLET_PATTERN = /^([•●▪◦‣\-*–]|\d+[.)]|[a-z][.)])\s+/;
+const NUMBERED_HEADING_PATTERN = /^(\d+(\.\d+)*|[IVX]+)\.?\s+\p{Lu}/u;
+// Page numbers and running footers such as "Page 3 of 12"
+const PAGE_NUMBER_PATTERN = /^(page\s+)?\d+(\s+of\s+\d+)?$/i;
+
+/**
+ * Group a page's text items into lines, in reading order
+ */
+function toLines(
+  items: Awaited<ReturnType<typeof extractTextItems>>["items"][number],
+  page: number,
+): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+  let lastEnd = 0;
+
+  for (const item of items) {
+    if (current && Math.abs(item.y - current.y) > item.fontSize * 0.5) {
+      lines.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { text: "", fontSize: 0, y: item.y, page };
+      lastEnd = item.x;
+    }
+
+    // Items are often split mid-line; add a space across visible gaps
+    const gap = item.x - lastEnd;
+    const needsSpace =
+      current.text &&
+      !current.text.endsWith(" ") &&
+      !item.str.startsWith(" ") &&
+      gap > item.fontSize * 0.2;
+    current.text += (needsSpace ? " " : "") + item.str;
+    if (item.str.trim()) {
+      current.fontSize = Math.max(current.fontSize, item.fontSize);
+    }
+    lastEnd = item.x + item.width;
+
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines
+    .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter((line) => line.text && !PAGE_NUMBER_PATTERN.test(line.text));
+}
+
+/**
+ * Font size of the body text: the size covering the most characters
+ */
+function bodyFontSize(lines: PdfLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+/**
+ * Headings are short lines set larger than the body, or numbered / all-caps
+ * lines that read like titles rather than sentences
+ */
+function isHeading(line: PdfLine, bodySize: number): boolean {
+  const { text } = line;
+  if (text.length > MAX_HEADING_LENGTH || BULLET_PATTERN.test(text)) {
+    return false;
+  }
+  if (line.fontSize >= bodySize * HEADING_SIZE_RATIO) {
+    return true;
+  }
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  const allCaps = letters.length >= 4 && letters === letters.toUpperCase();
+  const sentence = /[.,;]$/.test(text);
+  return !sentence && (allCaps || NUMBERED_HEADING_PATTERN.test(text));
+}
+
+/**
+ * Lines that repeat on most pages are running headers or footers
+ */
+function repeatedLines(lines: PdfLine[], pageCount: number): Set<string> {
+  if (pageCount < 3) return new Set();
+  const pages = new Map<string, Set<number>>();
+  for (const line of lines) {
+    const seen = pages.get(line.text) ?? new Set();
+    seen.add(line.page);
+    pages.set(line.text, seen);
+  }
+  return new Set(
+    [...pages]
+      .filter(([, seen]) => seen.size > pageCount / 2)
+      .map(([text]) => text),
+  );
+}
+
+/**
+ * Join a wrapped line onto the paragraph, undoing end-of-line hyphenation
+ */
+function appendLine(text: string, line: string): string {
+  if (!text) return line;
+  if (/\p{Ll}-$/u.test(text) && /^\p{Ll}/u.test(line)) {
+    return text.slice(0, -1) + line;
+  }
+  return `${text} ${line}`;
+}
+
+/**
+ * Extract paragraphs and their section headings from a PDF
+ * Runs locally with PDF.js; scanned PDFs without a text layer yield no blocks
+ *
+ * @param data - The PDF file contents
+ * @returns The metadata title and the text blocks in reading order
+ */
+export async function extractPdf(data: Uint8Array): Promise<ExtractedPdf> {
+  const pdf = await getDocumentProxy(data);
+  const { info } = await getMeta(pdf);
+  const { totalPages, items } = await extractTextItems(pdf);
+
+  const pageLines = items.map((pageItems, i) => toLines(pageItems, i + 1));
+  const allLines = pageLines.flat();
+  const bodySize = bodyFontSize(allLines);
+  const chrome = repeatedLines(allLines, totalPages);
+
+  const blocks: PdfBlock[] = [];
+  let sectionTitle = "";
+  let heading: PdfLine | null = null;
+  let previous: PdfLine | null = null;
+  // Whether the next body line may continue the last block
+  let inBlock = false;
+
+  for (const line of allLines) {
+    if (chrome.has(line.text)) continue;
+
+    if (isHeading(line, bodySize)) {
+      // Headings wrapped over consecutive lines form one title
+      sectionTitle =
+        heading && previous === heading && heading.fontSize === line.fontSize
+          ? `${sectionTitle} ${line.text}`
+          : line.text;
+      heading = line;
+      previous = line;
+      inBlock = false;
+      continue;
+    }
+
+    // A new paragraph starts at a bullet, a page break or a wide line gap
+    const lineGap = previous ? previous.y - line.y : 0;
+    if (
+      !inBlock ||
+      BULLET_PATTERN.test(line.text) ||
+      line.page !== previous?.page ||
+      lineGap > line.fontSize * 1.8
+    ) {
+      blocks.push({ sectionTitle, text: "", page: line.page });
+      inBlock = true;
+    }
+    const block = blocks[blocks.length - 1];
+    block.text = appendLine(block.text, line.text);
+    previous = line;
+  }
+
+  const title = typeof info?.Title === "string" ? info.Title.trim() : "";
+  // Word processors often leave a placeholder or file name as the title
+  const meaningful = title && !/^(untitled|microsoft word)|\.\w+$/i.test(title);
+
+  return { title: meaningful ? title : null, blocks };
+}
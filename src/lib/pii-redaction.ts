@@ -0,0 +1,224 @@
+import type { KioskUIMessage } from "@/lib/chat-message";
+
+export type PiiType =
+  | "email"
+  | "dob"
+  | "student_id"
+  | "phone"
+  | "address"
+  | "name";
+
+export interface RedactionRule {
+  type: PiiType;
+  pattern: RegExp;
+  // May keep a leading cue with $1, e.g. "my name is [NAME]"
+  replacement: string;
+}
+
+const PII_TYPES: PiiType[] = [
+  "email",
+  "dob",
+  "student_id",
+  "phone",
+  "address",
+  "name",
+];
+
+const MONTH =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const DATE = `(?:\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|${MONTH}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+\\d{4})?)`;
+// Written with a capital or lowercase initial, for case-sensitive patterns
+const STREET_SUFFIX =
+  "(?:[Ss]treet|[Ss]t|[Aa]venue|[Aa]ve|[Bb]oulevard|[Bb]lvd|[Rr]oad|[Rr]d|[Dd]rive|[Dd]r|[Ll]ane|[Ll]n|[Ww]ay|[Cc]ourt|[Cc]t|[Pp]lace|[Pp]l|[Tt]errace|[Tt]er|[Cc]ircle|[Cc]ir|[Pp]arkway|[Pp]kwy|[Hh]ighway|[Hh]wy)";
+const UNIT =
+  "(?:,?\\s*(?:[Aa]pt|[Aa]partment|[Uu]nit|[Ss]uite|#)\\.?\\s*[\\w-]+)?";
+const RELATIVE =
+  "(?:son|daughter|child|kid|boy|girl|grandson|granddaughter|nephew|niece|husband|wife|partner|brother|sister|mom|dad|mother|father)";
+// Common words that follow a name cue without being a name ("I'm Hispanic",
+// "This is Urgent", "named after his dad"), matched with either initial case
+const NOT_A_NAME_WORDS = [
+  "a an the and or but is am are was be will can not just so also still",
+  "here there new sorry sure glad happy worried confused interested urgent",
+  "after for from with about in on at to of by today tomorrow",
+  "monday tuesday wednesday thursday friday saturday sunday",
+  "hispanic latino latina spanish english mexican american chinese korean",
+  "vietnamese armenian filipino deaf pregnant single homeless",
+].flatMap((line) => line.split(" "));
+const NOT_A_NAME = `(?:${NOT_A_NAME_WORDS.map(
+  (word) => `[${word[0].toUpperCase()}${word[0]}]${word.slice(1)}`,
+).join("|")})\\b`;
+
+// Applied in order: more specific rules run first so, for example, a date of
+// birth or a student ID is not mistaken for a phone number
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    type: "email",
+    pattern: /\b[\w.%+-]+@[\w-]+(?:\.[\w-]+)+\b/gi,
+    replacement: "[EMAIL]",
+  },
+  {
+    type: "dob",
+    pattern: new RegExp(
+      `\\b((?:born(?:\\s+on)?|birthday(?:\\s+is)?|birth\\s*date(?:\\s+is)?|date\\s+of\\s+birth(?:\\s+is)?|dob)\\s*:?\\s*)${DATE}`,
+      "gi",
+    ),
+    replacement: "$1[DOB]",
+  },
+  {
+    type: "student_id",
+    pattern:
+      /\b((?:student|pupil|district|school)\s*(?:id|number|no\.?|#)|\bid\s*(?:number|no\.?|#))(\s*(?:is|:|#)?\s*)[a-z]?\d{5,10}\b/gi,
+    replacement: "$1$2[STUDENT_ID]",
+  },
+  {
+    type: "phone",
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+    replacement: "[PHONE]",
+  },
+  {
+    // Explicit cues, so lowercase street names are caught too
+    type: "address",
+    pattern: new RegExp(
+      `\\b((?:live|lives|living|stay|staying|moved)\\s+(?:at|on|to)\\s+|address\\s*(?:is|:)\\s*)\\d{1,6}\\s+(?:[a-z0-9'-]+\\s+){1,3}${STREET_SUFFIX}\\b\\.?${UNIT}`,
+      "gi",
+    ),
+    replacement: "$1[ADDRESS]",
+  },
+  {
+    // Otherwise the street name must look like one: capitalized words or an
+    // ordinal, so "2 kids on the way" or "Room 12 by the st" are left alone
+    type: "address",
+    pattern: new RegExp(
+      `\\b\\d{1,6}\\s+(?:(?:[NSEW]|North|South|East|West)\\.?\\s+)?(?:(?:[A-Z][a-z'-]*|\\d+(?:st|nd|rd|th))\\s+){1,3}${STREET_SUFFIX}\\b\\.?${UNIT}`,
+      "g",
+    ),
+    replacement: "[ADDRESS]",
+  },
+  {
+    // Explicit cues, so lowercase names are caught too
+    type: "name",
+    pattern: new RegExp(
+      `\\b((?:my|his|her|their)\\s+(?:${RELATIVE}(?:'s)?\\s+)?(?:full\\s+)?name\\s+is|${RELATIVE}\\s+(?:is\\s+)?named)\\s+(?!${NOT_A_NAME})[a-z][a-z'-]+(?:\\s+(?!${NOT_A_NAME})[a-z][a-z'-]+)?`,
+      "gi",
+    ),
+    replacement: "$1 [NAME]",
+  },
+  {
+    // A relative or a title followed by a capitalized word that is not a
+    // common one: "my daughter Sofia", "Mrs. Nguyen"
+    type: "name",
+    pattern: new RegExp(
+      `\\b((?:[Mm]y\\s+${RELATIVE}|(?:Mr|Mrs|Ms|Miss|Dr)\\.?)),?\\s+(?!${NOT_A_NAME})[A-Z][a-z'-]+(?:\\s+(?!${NOT_A_NAME})[A-Z][a-z'-]+)?`,
+      "g",
+    ),
+    replacement: "$1 [NAME]",
+  },
+  {
+    // Introductions only count for one or two capitalized words that end the
+    // clause, so "I'm Looking for TK" or "This is Lincoln Elementary right?"
+    // keep school and program names
+    type: "name",
+    pattern: new RegExp(
+      `\\b([Ii]'m|[Ii]\\s+am|[Tt]his\\s+is|[Cc]all\\s+me),?\\s+(?!${NOT_A_NAME})[A-Z][a-z'-]+(?:\\s+(?!${NOT_A_NAME})[A-Z][a-z'-]+)?(?=\\s*(?:[.,!?;:]|$))`,
+      "g",
+    ),
+    replacement: "$1 [NAME]",
+  },
+];
+
+/**
+ * Read the enabled PII types from PII_REDACTION
+ * Unset enables every type; "off" disables redaction
+ */
+function readEnabledTypes(): PiiType[] {
+  const value = process.env.PII_REDACTION?.trim();
+  if (!value) {
+    return PII_TYPES;
+  }
+  if (value === "off") {
+    return [];
+  }
+  return PII_TYPES.filter((type) =>
+    value.split(",").some((name) => name.trim() === type),
+  );
+}
+
+/**
+ * Add a deployment's own student ID format (PII_STUDENT_ID_PATTERN), which
+ * catches IDs typed without a cue such as "student ID"
+ */
+function readRules(): RedactionRule[] {
+  const studentIdPattern = process.env.PII_STUDENT_ID_PATTERN;
+  if (!studentIdPattern) {
+    return DEFAULT_REDACTION_RULES;
+  }
+
+  const rules = [...DEFAULT_REDACTION_RULES];
+  const phoneIndex = rules.findIndex((rule) => rule.type === "phone");
+  rules.splice(phoneIndex, 0, {
+    type: "student_id",
+    pattern: new RegExp(`\\b(?:${studentIdPattern})\\b`, "gi"),
+    replacement: "[STUDENT_ID]",
+  });
+  return rules;
+}
+
+/**
+ * PII redaction settings, configured by environment
+ */
+export const redactionConfig = {
+  types: readEnabledTypes(),
+  rules: readRules(),
+};
+
+export interface RedactionResult {
+  text: string;
+  // Types found, in rule order, without duplicates
+  found: PiiType[];
+}
+
+/**
+ * Mask personal information in a piece of text
+ *
+ * @param text - Text typed by a user
+ * @param config - Rules and enabled types (defaults to the env configuration)
+ * @returns The redacted text and the PII types that were found
+ */
+export function redactPii(
+  text: string,
+  config: { types: PiiType[]; rules: RedactionRule[] } = redactionConfig,
+): RedactionResult {
+  const found = new Set<PiiType>();
+  let redacted = text;
+
+  for (const rule of config.rules) {
+    if (!config.types.includes(rule.type)) continue;
+
+    const next = redacted.replace(rule.pattern, rule.replacement);
+    if (next !== redacted) {
+      found.add(rule.type);
+      redacted = next;
+    }
+  }
+
+  return { text: redacted, found: [...found] };
+}
+
+/**
+ * Redact the text users typed in every message of a conversation
+ * Assistant answers are generated from redacted input and may quote staff
+ * contact details from the documents, so their data parts are left as is
+ *
+ * @param messages - Conversation as sent by the kiosk
+ * @returns Messages safe to embed and send to the model
+ */
+export function redactMessages(messages: KioskUIMessage[]): KioskUIMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts.map((part) =>
+      part.type === "text"
+        ? { ...part, text: redactPii(part.text).text }
+        : part,
+    ),
+  }));
+}
@@ -0,0 +1,147 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import { getChatModel } from "@/lib/ai-provider";
+import type { SearchResult } from "@/lib/vector-search";
+
+export type RerankerName = "off" | "llm" | "local";
+
+export interface RerankedResult<T extends SearchResult = SearchResult> {
+  result: T;
+  relevance: number;
+}
+
+/**
+ * Second-stage scorer that reorders retrieved chunks for a query
+ */
+export interface Reranker {
+  name: Exclude<RerankerName, "off">;
+  rerank<T extends SearchResult>(
+    query: string,
+    candidates: T[],
+  ): Promise<RerankedResult<T>[]>;
+}
+
+const relevanceSchema = z.object({
+  scores: z.array(
+    z.object({
+      index: z.number().int().min(0),
+      score: z.number().min(0).max(10),
+    }),
+  ),
+});
+
+/**
+ * Reranker that asks the chat model to score each candidate's relevance (0-10)
+ */
+export const llmReranker: Reranker = {
+  name: "llm",
+  async rerank(query, candidates) {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const passages = candidates
+      .map((chunk, i) => {
+        const section = chunk.sectionTitle ? ` — ${chunk.sectionTitle}` : "";
+        return `[${i}] ${chunk.documentTitle}${section}\n${chunk.content}`;
+      })
+      .join("\n\n");
+
+    const { output } = await generateText({
+      model: getChatModel(),
+      output: Output.object({ schema: relevanceSchema }),
+      system:
+        "You score how well each passage answers a question. Return a score from 0 (irrelevant) to 10 (directly answers it) for every passage index.",
+      prompt: `Question: ${query}\n\nPassages:\n\n${passages}`,
+    });
+
+    const scores = new Map(output.scores.map((s) => [s.index, s.score]));
+
+    return candidates.map((result, i) => ({
+      result,
+      relevance: scores.get(i) ?? 0,
+    }));
+  },
+};
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Local stand-in for a cross-encoder: scores query term coverage of the
+ * section title and content, blended with the first-stage similarity
+ */
+export const localReranker: Reranker = {
+  name: "local",
+  async rerank(query, candidates) {
+    const queryTerms = new Set(tokenize(query));
+
+    return candidates.map((result) => {
+      const contentTerms = new Set(tokenize(result.content));
+      const titleTerms = new Set(tokenize(result.sectionTitle ?? ""));
+
+      let matched = 0;
+      for (const term of queryTerms) {
+        if (titleTerms.has(term)) {
+          matched += 1.5;
+        } else if (contentTerms.has(term)) {
+          matched += 1;
+        }
+      }
+
+      const coverage = queryTerms.size > 0 ? matched / queryTerms.size : 0;
+      return {
+        result,
+        relevance: 0.6 * Math.min(coverage, 1) + 0.4 * result.similarity,
+      };
+    });
+  },
+};
+
+/**
+ * Look up a reranker by name
+ * @param name - Reranker name from config ("off" disables reranking)
+ * @returns The reranker, or null when reranking is disabled
+ */
+export function getReranker(name: RerankerName): Reranker | null {
+  switch (name) {
+    case "llm":
+      return llmReranker;
+    case "local":
+      return localReranker;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reorder candidates with a reranker and keep the best results
+ *
+ * @param reranker - Reranker to score candidates with
+ * @param query - The user's question
+ * @param candidates - First-stage search results
+ * @param limit - Number of results to keep
+ * @returns Top candidates ordered by reranker relevance, or in first-stage
+ * order if the reranker fails
+ */
+export async function rerankChunks<T extends SearchResult>(
+  reranker: Reranker,
+  query: string,
+  candidates: T[],
+  limit: number,
+): Promise<T[]> {
+  let reranked: RerankedResult<T>[];
+  try {
+    reranked = await reranker.rerank(query, candidates);
+  } catch (error) {
+    // The first-stage order is still a usable ranking
+    console.error(`Failed to rerank with ${reranker.name} reranker:`, error);
+    return candidates.slice(0, limit);
+  }
+
+  return reranked
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, limit)
+    .map(({ result }) => result);
+}
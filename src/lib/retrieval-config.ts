@@ -0,0 +1,49 @@
+import type { RerankerName } from "@/lib/rerank";
+import type { FilterStrategy, HybridSearchOptions } from "@/lib/vector-search";
+
+const RERANKER_NAMES: RerankerName[] = ["off", "llm", "local"];
+const FILTER_STRATEGIES: FilterStrategy[] = ["auto", "exact", "index"];
+
+/**
+ * Read a numeric environment variable, falling back when unset or invalid
+ */
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Retrieval settings for the chat route
+ * Weights can be tuned per deployment without code changes
+ */
+export const retrievalConfig: Required<
+  Omit<HybridSearchOptions, "collection" | "filter" | "scope">
+> = {
+  limit: readNumber("SEARCH_LIMIT", 5),
+  similarityThreshold: readNumber("SEARCH_SIMILARITY_THRESHOLD", 0.3),
+  candidateLimit: readNumber("SEARCH_CANDIDATE_LIMIT", 20),
+  vectorWeight: readNumber("SEARCH_VECTOR_WEIGHT", 1),
+  lexicalWeight: readNumber("SEARCH_LEXICAL_WEIGHT", 1),
+  rrfK: readNumber("SEARCH_RRF_K", 60),
+  scopeBoost: readNumber("SEARCH_TOPIC_BOOST", 2),
+  audienceBoost: readNumber("SEARCH_AUDIENCE_BOOST", 1.5),
+  filterStrategy:
+    FILTER_STRATEGIES.find(
+      (strategy) => strategy === process.env.SEARCH_FILTER_STRATEGY,
+    ) ?? "auto",
+};
+
+/**
+ * Second-stage reranking settings
+ * When enabled, search over-fetches candidates and the reranker keeps the best
+ */
+export const rerankConfig = {
+  reranker:
+    RERANKER_NAMES.find((name) => name === process.env.RERANKER) ?? "off",
+  candidateLimit: readNumber("RERANK_CANDIDATE_LIMIT", 30),
+};
+
+/**
+ * Send a retrieval trace (original and rewritten queries) with each answer
+ */
+export const traceEnabled = process.env.CHAT_DEBUG === "true";
@@ -0,0 +1,105 @@
+import type { SearchFilter } from "@/lib/vector-search";
+
+/**
+ * Answer modes for each kiosk role
+ *
+ * A profile shapes the system prompt (who is asking, tone, answer length)
+ * and the documents retrieval may draw from. Documents tagged "internal"
+ * hold staff procedures and are only searched for roles that may see them,
+ * and for staff only once they have entered the staff PIN.
+ */
+
+export type UserRole = "student" | "parent" | "staff";
+
+export const INTERNAL_TAG = "internal";
+
+export interface RoleProfile {
+  role: UserRole;
+  // Who is asking and what they need from an answer
+  prompt: string;
+  tone: string;
+  // Rough upper bound on answer length, in words
+  maxWords: number;
+  // Only search documents with any of these tags; undefined searches all
+  documentTags?: string[];
+  // Search internal documents and explain staff procedures step by step
+  showInternalProcedures: boolean;
+}
+
+export const ROLE_PROFILES: Record<UserRole, RoleProfile> = {
+  student: {
+    role: "student",
+    prompt: `You are speaking to an elementary-aged student.
+- Use simple, age-appropriate language. Avoid jargon, acronyms, or complex vocabulary, and explain things the way a teacher would to a young child.
+- Use short sentences.`,
+    tone: "warm, friendly and encouraging",
+    maxWords: 80,
+    showInternalProcedures: false,
+  },
+  parent: {
+    role: "parent",
+    prompt: `You are speaking to a parent or caregiver.
+- Focus on what the family needs to know or do: dates, eligibility, forms, and who to contact.
+- Explain school terms and acronyms the first time they appear.`,
+    tone: "respectful, welcoming and plain-spoken",
+    maxWords: 150,
+    showInternalProcedures: false,
+  },
+  staff: {
+    role: "staff",
+    prompt: `You are speaking to a school staff member who uses the kiosk to troubleshoot and to help students and families.
+- Give detailed, procedure-level answers: the steps in order, who is responsible, deadlines, forms, and exceptions the policy mentions.
+- Use the policy's own terms and section names so staff can find them in the source.`,
+    tone: "professional and precise",
+    maxWords: 350,
+    showInternalProcedures: true,
+  },
+};
+
+// Requests without a known role get the public-facing answers
+export const DEFAULT_ROLE: UserRole = "parent";
+
+/**
+ * Look up the profile for a role, falling back to the default role for
+ * missing or unknown values from the request
+ * Internal procedures stay hidden unless the staff PIN was verified
+ */
+export function getRoleProfile(
+  role: unknown,
+  staffVerified = false,
+): RoleProfile {
+  const profile =
+    Object.values(ROLE_PROFILES).find((candidate) => candidate.role === role) ??
+    ROLE_PROFILES[DEFAULT_ROLE];
+
+  return profile.showInternalProcedures && !staffVerified
+    ? { ...profile, showInternalProcedures: false }
+    : profile;
+}
+
+/**
+ * Prompt section describing the asker and how to answer them
+ */
+export function buildRolePrompt(profile: RoleProfile): string {
+  const procedures = profile.showInternalProcedures
+    ? "- Internal procedures in the reference documents may be shared in full."
+    : "- Do NOT describe internal staff procedures; say a staff member can help with those.";
+
+  return `AUDIENCE:
+- ${profile.prompt}
+- Tone: ${profile.tone}.
+- Keep answers under about ${profile.maxWords} words.
+${procedures}`;
+}
+
+/**
+ * Retrieval filter for the documents a role may see: chunks meant for the
+ * role, within its document set, without internal procedures unless allowed
+ */
+export function buildRoleFilter(profile: RoleProfile): SearchFilter {
+  return {
+    audience: profile.role,
+    tags: profile.documentTags,
+    excludeTags: profile.showInternalProcedures ? undefined : [INTERNAL_TAG],
+  };
+}
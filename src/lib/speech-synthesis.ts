@@ -0,0 +1,112 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { experimental_generateSpeech as generateSpeech } from "ai";
+import type { LanguageCode } from "@/lib/languages";
+
+// "browser" speaks with the kiosk's built-in voices; "server" calls /api/speech
+export type ReadAloudMode = "off" | "browser" | "server";
+
+export type SynthesizerName = "openai" | "fake";
+
+export interface SynthesizedSpeech {
+  audio: Uint8Array;
+  mediaType: string;
+}
+
+/**
+ * Text-to-speech backend for reading answers aloud
+ */
+export interface SpeechSynthesizer {
+  name: SynthesizerName;
+  synthesize(
+    text: string,
+    options: { language: LanguageCode },
+  ): Promise<SynthesizedSpeech>;
+}
+
+// OpenAI, Kokoro-FastAPI and openedai-speech all serve /v1/audio/speech
+const speechServer = createOpenAI({
+  name: "tts",
+  baseURL: process.env.TTS_BASE_URL ?? "https://api.openai.com/v1",
+  apiKey: process.env.TTS_API_KEY ?? process.env.OPENAI_API_KEY ?? "not-needed",
+});
+
+/**
+ * Synthesizer backed by an OpenAI-compatible speech endpoint
+ */
+export const openaiSpeechSynthesizer: SpeechSynthesizer = {
+  name: "openai",
+  async synthesize(text, { language }) {
+    const { audio } = await generateSpeech({
+      model: speechServer.speech(process.env.TTS_MODEL ?? "tts-1"),
+      text,
+      voice: process.env.TTS_VOICE ?? "alloy",
+      outputFormat: "mp3",
+      language,
+    });
+    return { audio: audio.uint8Array, mediaType: audio.mediaType };
+  },
+};
+
+/**
+ * Silent synthesizer for development without a speech server
+ * Returns a short silent WAV clip per sentence, so highlighting still advances
+ */
+export const fakeSpeechSynthesizer: SpeechSynthesizer = {
+  name: "fake",
+  async synthesize() {
+    const sampleRate = 8000;
+    const samples = sampleRate / 2;
+    const wav = new DataView(new ArrayBuffer(44 + samples));
+    const writeText = (offset: number, text: string) => {
+      for (let i = 0; i < text.length; i++) {
+        wav.setUint8(offset + i, text.charCodeAt(i));
+      }
+    };
+    writeText(0, "RIFF");
+    wav.setUint32(4, 36 + samples, true);
+    writeText(8, "WAVEfmt ");
+    wav.setUint32(16, 16, true);
+    wav.setUint16(20, 1, true); // PCM
+    wav.setUint16(22, 1, true); // mono
+    wav.setUint32(24, sampleRate, true);
+    wav.setUint32(28, sampleRate, true); // byte rate at 8 bits per sample
+    wav.setUint16(32, 1, true); // block align
+    wav.setUint16(34, 8, true); // bits per sample
+    writeText(36, "data");
+    wav.setUint32(40, samples, true);
+    // 8-bit PCM is unsigned, so silence is 128
+    new Uint8Array(wav.buffer, 44).fill(128);
+    return { audio: new Uint8Array(wav.buffer), mediaType: "audio/wav" };
+  },
+};
+
+/**
+ * Look up a speech synthesizer by name
+ */
+export function getSpeechSynthesizer(name: SynthesizerName): SpeechSynthesizer {
+  switch (name) {
+    case "fake":
+      return fakeSpeechSynthesizer;
+    default:
+      return openaiSpeechSynthesizer;
+  }
+}
+
+const READ_ALOUD_MODES: ReadAloudMode[] = ["off", "browser", "server"];
+const SYNTHESIZER_NAMES: SynthesizerName[] = ["openai", "fake"];
+
+/**
+ * Read-aloud settings
+ * Sentences are synthesized one at a time, so each request stays short
+ */
+export const speechConfig = {
+  mode:
+    READ_ALOUD_MODES.find((mode) => mode === process.env.READ_ALOUD) ??
+    "browser",
+  // Synthesizer behind /api/speech when mode is "server"
+  synthesizer:
+    SYNTHESIZER_NAMES.find((name) => name === process.env.TTS_SYNTHESIZER) ??
+    "openai",
+  autoPlayForStudents: process.env.READ_ALOUD_AUTOPLAY_STUDENTS === "true",
+  maxTextLength: 1000,
+};
@@ -0,0 +1,42 @@
+import { stripCitations } from "@/lib/citations";
+
+/**
+ * Turn answer markdown into plain text suitable for speech
+ * Drops citation markers and formatting; list items and headings become
+ * their own sentences so they are not run together
+ *
+ * @param markdown - Answer markdown
+ * @returns Plain text
+ */
+export function toSpeechText(markdown: string): string {
+  return stripCitations(markdown)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*(#{1,6}|>|[-*+]|\d+[.)])\s+/, "")
+        .replace(/[*_`~]/g, "")
+        .replace(/\|/g, " ")
+        .replace(/\s+/g, " ")
+        .replace(/ ([.,!?;:])/g, "$1")
+        .trim(),
+    )
+    .filter((line) => line && !/^[-:\s]+$/.test(line))
+    .map((line) => (/[.!?:;]$/.test(line) ? line : `${line}.`))
+    .join(" ");
+}
+
+/**
+ * Split plain text into sentences for sentence-by-sentence reading
+ *
+ * @param text - Plain text from toSpeechText
+ * @param language - Language code, for locale-aware sentence breaks
+ * @returns Non-empty sentences in order
+ */
+export function splitSentences(text: string, language: string): string[] {
+  const segmenter = new Intl.Segmenter(language, { granularity: "sentence" });
+  return [...segmenter.segment(text)]
+    .map(({ segment }) => segment.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,27 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Staff PIN for the kiosk's staff mode, from STAFF_PIN
+ *
+ * Anyone at a shared kiosk can tap "Staff Member", so the role alone never
+ * unlocks internal documents: every chat request must carry this PIN.
+ * Without a PIN configured, staff get staff-style answers from public
+ * documents only.
+ */
+const staffPin = process.env.STAFF_PIN?.trim() || null;
+
+export const staffPinConfigured = staffPin !== null;
+
+/**
+ * Check a PIN from a request against STAFF_PIN
+ * @returns false for any PIN when none is configured
+ */
+export function isStaffPin(pin: unknown): boolean {
+  if (!staffPin || typeof pin !== "string") {
+    return false;
+  }
+
+  const expected = Buffer.from(staffPin);
+  const given = Buffer.from(pin.trim());
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
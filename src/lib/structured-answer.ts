@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+/**
+ * Structured answer the chat model must return
+ * The route derives sources and escalation from these fields instead of
+ * matching phrases in the answer text
+ */
+export const structuredAnswerSchema = z.object({
+  answer: z
+    .string()
+    .describe("The answer shown to the user, formatted as markdown."),
+  answered: z
+    .boolean()
+    .describe("True only if the answer addresses the user's question."),
+  grounded: z
+    .boolean()
+    .describe(
+      "True only if every statement in the answer is supported by the reference documents.",
+    ),
+  escalate: z
+    .boolean()
+    .describe(
+      "True if the user should speak with a staff member (crisis, personal situations, or questions the documents cannot answer).",
+    ),
+  references: z
+    .array(z.number().int().min(1))
+    .describe(
+      'Numbers of the reference documents actually used, e.g. 2 for "Reference 2". Empty if none were used.',
+    ),
+  contacts: z
+    .array(z.string())
+    .describe(
+      "Ids of the looked-up directory contacts the answer refers the user to. Empty if none.",
+    ),
+});
+
+export type StructuredAnswer = z.infer<typeof structuredAnswerSchema>;
+
+export const STRUCTURED_OUTPUT_INSTRUCTIONS = `RESPONSE FORMAT:
+- Put the full answer for the user in "answer" as markdown.
+- Set "answered" to false when you could not answer the question from the reference documents.
+- Set "grounded" to true only when every statement comes from the reference documents.
+- Set "escalate" to true whenever you direct the user to a staff member.
+- List in "references" every reference number you cited inline in the answer, and no others.
+- List in "contacts" the id of every looked-up contact the answer refers the user to, and no others.`;
@@ -0,0 +1,85 @@
+import type { ChunkScope } from "@/lib/vector-search";
+
+/**
+ * Curated quick-pick topics shown after role selection
+ *
+ * Each topic maps to the documents and sections that cover it. Titles match
+ * case-insensitively on substrings, so they keep working when a document is
+ * re-imported under a slightly longer name. Labels and starter questions live
+ * in the UI message catalog.
+ */
+
+export type TopicId =
+  | "enrollment"
+  | "before-after-care"
+  | "lunch"
+  | "wellness"
+  | "counseling";
+
+export interface Topic {
+  id: TopicId;
+  scope: ChunkScope;
+  // "restrict" searches only the topic's chunks; "boost" ranks them higher
+  // but still finds answers elsewhere
+  mode: "restrict" | "boost";
+}
+
+export const TOPICS: Topic[] = [
+  {
+    id: "enrollment",
+    scope: {
+      documentTitles: ["Enrollment", "Registration", "Admissions"],
+      sectionTitles: ["Enrollment", "Registration", "Eligibility"],
+    },
+    mode: "boost",
+  },
+  {
+    id: "before-after-care",
+    scope: {
+      documentTitles: ["Before and After School", "Expanded Learning"],
+      sectionTitles: [
+        "Before and After School",
+        "After School",
+        "Extended Day",
+      ],
+    },
+    mode: "boost",
+  },
+  {
+    id: "lunch",
+    scope: {
+      documentTitles: ["Nutrition", "Meal"],
+      sectionTitles: [
+        "Food Service",
+        "Child Nutrition",
+        "Quality of Food",
+        "Student Access",
+        "Meal",
+      ],
+    },
+    mode: "boost",
+  },
+  {
+    id: "wellness",
+    scope: {
+      documentTitles: ["Wellness"],
+      sectionTitles: ["Physical Activity", "Physical Education", "Recess"],
+    },
+    mode: "restrict",
+  },
+  {
+    id: "counseling",
+    scope: {
+      documentTitles: ["Counseling", "Bullying", "Mental Health"],
+      sectionTitles: ["Counseling", "Harassment", "Bullying"],
+    },
+    mode: "boost",
+  },
+];
+
+/**
+ * Look up a topic by id, ignoring unknown values from the request
+ */
+export function findTopic(id: unknown): Topic | null {
+  return TOPICS.find((topic) => topic.id === id) ?? null;
+}
@@ -0,0 +1,80 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { experimental_transcribe as transcribe } from "ai";
+import type { LanguageCode } from "@/lib/languages";
+
+export type TranscriberName = "off" | "whisper" | "fake";
+
+export interface TranscriptionOptions {
+  // Expected spoken language; improves accuracy for short questions
+  language?: LanguageCode;
+}
+
+/**
+ * Speech-to-text backend for spoken questions
+ */
+export interface Transcriber {
+  name: Exclude<TranscriberName, "off">;
+  transcribe(audio: Uint8Array, options: TranscriptionOptions): Promise<string>;
+}
+
+// faster-whisper-server, speaches and the OpenAI API all serve
+// /v1/audio/transcriptions
+const whisperServer = createOpenAI({
+  name: "whisper",
+  baseURL: process.env.WHISPER_BASE_URL ?? "http://localhost:8000/v1",
+  apiKey: process.env.WHISPER_API_KEY ?? "not-needed",
+});
+
+/**
+ * Transcriber backed by a Whisper-compatible transcription server
+ */
+export const whisperTranscriber: Transcriber = {
+  name: "whisper",
+  async transcribe(audio, { language }) {
+    const { text } = await transcribe({
+      model: whisperServer.transcription(
+        process.env.WHISPER_MODEL ?? "whisper-1",
+      ),
+      audio,
+      providerOptions: language ? { openai: { language } } : undefined,
+    });
+    return text.trim();
+  },
+};
+
+/**
+ * Deterministic transcriber for development without a speech server
+ */
+export const fakeTranscriber: Transcriber = {
+  name: "fake",
+  async transcribe(audio) {
+    return `[fake] ${audio.byteLength} bytes of audio`;
+  },
+};
+
+/**
+ * Look up a transcriber by name
+ * @returns The transcriber, or null when speech input is turned off
+ */
+export function getTranscriber(name: TranscriberName): Transcriber | null {
+  switch (name) {
+    case "whisper":
+      return whisperTranscriber;
+    case "fake":
+      return fakeTranscriber;
+    default:
+      return null;
+  }
+}
+
+const TRANSCRIBER_NAMES: TranscriberName[] = ["off", "whisper", "fake"];
+
+/**
+ * Speech input settings
+ * The kiosk stops recording after 30 seconds; larger uploads are rejected
+ */
+export const transcriptionConfig = {
+  transcriber:
+    TRANSCRIBER_NAMES.find((name) => name === process.env.TRANSCRIBER) ?? "off",
+  maxAudioBytes: 5 * 1024 * 1024,
+};
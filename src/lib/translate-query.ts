@@ -0,0 +1,68 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import { getChatModel } from "@/lib/ai-provider";
+import {
+  CORPUS_LANGUAGE,
+  LANGUAGE_CODES,
+  LANGUAGES,
+  type LanguageCode,
+} from "@/lib/languages";
+
+export interface TranslatedQuery {
+  // Language to answer in
+  language: LanguageCode;
+  // Query in the corpus language, for embedding and full-text search
+  query: string;
+}
+
+const translationSchema = z.object({
+  language: z
+    .enum(LANGUAGE_CODES as [LanguageCode, ...LanguageCode[]])
+    .describe("Code of the language the query is written in"),
+  query: z
+    .string()
+    .describe(`The query translated into ${LANGUAGES[CORPUS_LANGUAGE].name}`),
+});
+
+const TRANSLATE_SYSTEM_PROMPT = `You prepare search queries for a document search engine whose documents are all in ${LANGUAGES[CORPUS_LANGUAGE].name}.
+
+RULES:
+- Identify the language of the query. Supported languages: ${LANGUAGE_CODES.map((code) => `${code} (${LANGUAGES[code].name})`).join(", ")}. If it is none of these, use "${CORPUS_LANGUAGE}".
+- Translate the query into ${LANGUAGES[CORPUS_LANGUAGE].name}. If it is already in ${LANGUAGES[CORPUS_LANGUAGE].name}, return it unchanged.
+- Keep program names, acronyms and school names as written.
+- Do NOT answer the query.`;
+
+/**
+ * Detect the language of a search query and translate it for retrieval
+ * A language chosen by the user sets the answer language, but the query is
+ * still translated: visitors often type in another language than the one
+ * they picked
+ *
+ * @param query - Standalone search query in the user's language
+ * @param language - Language chosen by the user, if any, as a hint
+ * @returns Answer language and the query to search with
+ */
+export async function translateQuery(
+  query: string,
+  language?: LanguageCode,
+): Promise<TranslatedQuery> {
+  try {
+    const { output } = await generateText({
+      model: getChatModel(),
+      output: Output.object({ schema: translationSchema }),
+      system: TRANSLATE_SYSTEM_PROMPT,
+      prompt: language
+        ? `The user picked ${LANGUAGES[language].name}, but may have typed in another language.\n\nQuery: ${query}`
+        : `Query: ${query}`,
+    });
+
+    return {
+      language: language ?? output.language,
+      query: output.query.trim() || query,
+    };
+  } catch (error) {
+    // Cross-lingual vector search still finds something on the raw query
+    console.error("Failed to translate query:", error);
+    return { language: language ?? CORPUS_LANGUAGE, query };
+  }
+}
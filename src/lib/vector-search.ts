@@ -1,6 +1,26 @@
+import {
+  and,
+  arrayOverlaps,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  isNull,
+  lte,
+  not,
+  notExists,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { db } from "@/db";
-import { textChunks, documents } from "@/db/schema";
-import { sql } from "drizzle-orm";
+import { chunkEmbeddings, documents, textChunks } from "@/db/schema";
+import {
+  type EmbeddingCollection,
+  getServingCollection,
+  validateEmbedding,
+} from "@/lib/embedding-models";
 
 export interface SearchResult {
   id: string;
@@ -10,32 +30,363 @@ export interface SearchResult {
   documentId: string;
   documentTitle: string;
   sourceUrl: string | null;
+  // Roles the chunk is meant for, or null when it is for everyone
+  audience: string[] | null;
+  // Page the chunk starts on, for documents extracted from PDFs
+  page: number | null;
+  // Period the document is in effect (YYYY-MM-DD), null when open-ended
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+}
+
+export interface HybridSearchResult extends SearchResult {
+  score: number;
+}
+
+/**
+ * A subset of the corpus, by document and section title
+ * Titles match case-insensitively on substrings; a chunk is in scope when
+ * either its document or its section matches
+ */
+export interface ChunkScope {
+  documentTitles?: string[];
+  sectionTitles?: string[];
+}
+
+/**
+ * Metadata filter for searches; every field that is set must match
+ */
+export interface SearchFilter {
+  documentIds?: string[];
+  // Documents with any of these tags
+  tags?: string[];
+  // Documents with none of these tags
+  excludeTags?: string[];
+  // Chunks meant for this audience, or for everyone
+  audience?: string;
+  language?: string;
+  // Documents for this location, or for every location
+  location?: string;
+  // Documents in effect at some point in this range (inclusive)
+  effective?: { from?: Date; to?: Date };
+  // Only documents in effect on this date and not yet superseded by a newer
+  // version (default: today); null also searches expired and replaced ones
+  asOf?: Date | null;
+  // Chunks whose document or section title matches
+  scope?: ChunkScope;
+}
+
+/**
+ * How a filtered vector search uses the HNSW index
+ * - exact: skip the index and rank only the filtered rows; accurate and cheap
+ *   when the filter is narrow, such as a handful of documents
+ * - index: scan the HNSW index and filter its candidates; fast on large
+ *   corpora, and kept scanning until enough rows pass the filter
+ * - auto: exact when filtering by document ids, index otherwise
+ */
+export type FilterStrategy = "auto" | "exact" | "index";
+
+export interface SearchOptions {
+  limit?: number;
+  // Embedding collection to search (default: the serving collection)
+  collection?: EmbeddingCollection;
+  filter?: SearchFilter;
+}
+
+export interface VectorSearchOptions extends SearchOptions {
+  similarityThreshold?: number;
+  filterStrategy?: FilterStrategy;
+}
+
+export interface HybridSearchOptions extends VectorSearchOptions {
+  // Number of candidates pulled from each ranking before fusion
+  candidateLimit?: number;
+  vectorWeight?: number;
+  lexicalWeight?: number;
+  // Reciprocal rank fusion constant; larger values flatten rank differences
+  rrfK?: number;
+  // Search only in this scope ("restrict"), or rank it higher ("boost")
+  scope?: { chunks: ChunkScope; mode: "restrict" | "boost" };
+  // Fused score multiplier for in-scope chunks when boosting
+  scopeBoost?: number;
+  // Fused score multiplier for chunks tagged for the filter's audience
+  audienceBoost?: number;
+}
+
+/**
+ * Escape LIKE wildcards so user text matches literally
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * SQL condition matching chunks in a scope
+ */
+function scopeCondition(scope: ChunkScope): SQL | undefined {
+  return or(
+    ...(scope.documentTitles ?? []).map((title) =>
+      ilike(documents.title, `%${escapeLike(title)}%`),
+    ),
+    ...(scope.sectionTitles ?? []).map((title) =>
+      ilike(textChunks.sectionTitle, `%${escapeLike(title)}%`),
+    ),
+  );
+}
+
+// A chunk's own audience, falling back to its document's
+const chunkAudience = sql<
+  string[] | null
+>`coalesce(${textChunks.audience}, ${documents.audience})`;
+
+function toDateString(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+const newerVersions = alias(documents, "newer_versions");
+
+/**
+ * Documents in effect on a date whose replacement, if any, has not yet
+ * taken effect
+ */
+function currentCondition(date: string): SQL | undefined {
+  return and(
+    or(isNull(documents.effectiveFrom), lte(documents.effectiveFrom, date)),
+    or(isNull(documents.effectiveTo), gte(documents.effectiveTo, date)),
+    notExists(
+      db
+        .select({ id: newerVersions.id })
+        .from(newerVersions)
+        .where(
+          and(
+            eq(newerVersions.supersedesId, documents.id),
+            or(
+              isNull(newerVersions.effectiveFrom),
+              lte(newerVersions.effectiveFrom, date),
+            ),
+          ),
+        ),
+    ),
+  );
+}
+
+/**
+ * SQL condition for a metadata filter, or undefined when nothing is filtered
+ * The asOf date is left to asOfCondition
+ */
+function filterCondition(filter: SearchFilter = {}): SQL | undefined {
+  const { effective } = filter;
+
+  return and(
+    filter.documentIds && inArray(textChunks.documentId, filter.documentIds),
+    filter.tags?.length
+      ? arrayOverlaps(documents.tags, filter.tags)
+      : undefined,
+    filter.excludeTags?.length
+      ? not(arrayOverlaps(documents.tags, filter.excludeTags))
+      : undefined,
+    filter.audience
+      ? or(
+          sql`${chunkAudience} IS NULL`,
+          sql`${filter.audience} = ANY(${chunkAudience})`,
+        )
+      : undefined,
+    filter.language ? eq(documents.language, filter.language) : undefined,
+    filter.location
+      ? or(isNull(documents.location), eq(documents.location, filter.location))
+      : undefined,
+    effective?.to
+      ? or(
+          isNull(documents.effectiveFrom),
+          lte(documents.effectiveFrom, toDateString(effective.to)),
+        )
+      : undefined,
+    effective?.from
+      ? or(
+          isNull(documents.effectiveTo),
+          gte(documents.effectiveTo, toDateString(effective.from)),
+        )
+      : undefined,
+    filter.scope && scopeCondition(filter.scope),
+  );
+}
+
+/**
+ * SQL condition for a filter's asOf date (default: today), or undefined when
+ * expired and replaced documents are searched too
+ */
+function asOfCondition(filter: SearchFilter = {}): SQL | undefined {
+  const asOf = filter.asOf === undefined ? new Date() : filter.asOf;
+  return asOf ? currentCondition(toDateString(asOf)) : undefined;
+}
+
+let iterativeScanSupport: Promise<boolean> | null = null;
+
+/**
+ * Iterative HNSW scans arrived in pgvector 0.8
+ */
+function supportsIterativeScan(): Promise<boolean> {
+  iterativeScanSupport ??= db
+    .execute<{ extversion: string }>(
+      sql`SELECT extversion FROM pg_extension WHERE extname = 'vector'`,
+    )
+    .then((result) => {
+      const [major = 0, minor = 0] = (result.rows[0]?.extversion ?? "")
+        .split(".")
+        .map(Number);
+      return major > 0 || minor >= 8;
+    });
+  return iterativeScanSupport;
+}
+
+/**
+ * Check a search result against a scope, matching scopeCondition
+ */
+export function isInScope(result: SearchResult, scope: ChunkScope): boolean {
+  const matches = (value: string | null, titles: string[] = []) =>
+    value !== null &&
+    titles.some((title) => value.toLowerCase().includes(title.toLowerCase()));
+
+  return (
+    matches(result.documentTitle, scope.documentTitles) ||
+    matches(result.sectionTitle, scope.sectionTitles)
+  );
+}
+
+/**
+ * Validate the query embedding against the collection and build the
+ * cosine distance expression its partial HNSW index can serve
+ */
+function cosineDistance(
+  queryEmbedding: number[],
+  collection: EmbeddingCollection,
+): SQL<number> {
+  validateEmbedding(queryEmbedding, collection);
+
+  // Convert embedding to PostgreSQL vector format
+  const embeddingStr = `[${queryEmbedding.join(",")}]`;
+  const dimensions = sql.raw(String(collection.dimensions));
+
+  return sql<number>`(${chunkEmbeddings.embedding}::vector(${dimensions}) <=> ${embeddingStr}::vector(${dimensions}))`;
 }
 
 /**
  * Search for text chunks using vector similarity
- * @param queryEmbedding - The embedding vector for the search query (1536 dimensions)
- * @param limit - Maximum number of results to return (default: 5)
- * @param similarityThreshold - Minimum similarity score (0-1, default: 0.7)
+ * @param queryEmbedding - The embedding vector for the search query, from the collection's model
+ * @param options - Result limit (default: 5), minimum similarity (0-1, default: 0.7),
+ *   collection (default: the serving collection), metadata filter and filter strategy
  * @returns Array of matching text chunks with document metadata
  */
 export async function searchSimilarChunks(
   queryEmbedding: number[],
-  limit = 5,
-  similarityThreshold = 0.7,
+  options: VectorSearchOptions = {},
 ): Promise<SearchResult[]> {
-  // Validate embedding dimensions
-  if (queryEmbedding.length !== 1536) {
-    throw new Error(
-      `Invalid embedding dimensions: expected 1536, got ${queryEmbedding.length}`,
-    );
-  }
-
-  // Convert embedding to PostgreSQL vector format
-  const embeddingStr = `[${queryEmbedding.join(",")}]`;
+  const {
+    limit = 5,
+    similarityThreshold = 0.7,
+    filterStrategy = "auto",
+  } = options;
+  const searchCollection = options.collection ?? (await getServingCollection());
+  const distance = cosineDistance(queryEmbedding, searchCollection);
+  const filter = filterCondition(options.filter);
 
   // Query using cosine similarity
   // Note: 1 - cosine_distance = cosine_similarity
+  const query = (executor: Pick<typeof db, "select">) =>
+    executor
+      .select({
+        id: textChunks.id,
+        content: textChunks.content,
+        sectionTitle: textChunks.sectionTitle,
+        documentId: textChunks.documentId,
+        documentTitle: documents.title,
+        sourceUrl: documents.sourceUrl,
+        audience: chunkAudience,
+        page: textChunks.page,
+        effectiveFrom: documents.effectiveFrom,
+        effectiveTo: documents.effectiveTo,
+        similarity: sql<number>`1 - ${distance}`,
+      })
+      .from(chunkEmbeddings)
+      .innerJoin(textChunks, eq(chunkEmbeddings.chunkId, textChunks.id))
+      .innerJoin(documents, eq(textChunks.documentId, documents.id))
+      .where(
+        and(
+          eq(chunkEmbeddings.model, searchCollection.name),
+          sql`1 - ${distance} >= ${similarityThreshold}`,
+          filter,
+          asOfCondition(options.filter),
+        ),
+      )
+      .orderBy(sql`${distance} ASC`)
+      .limit(limit);
+
+  let results: Awaited<ReturnType<typeof query>>;
+  if (!filter) {
+    // Nearly every document is current, so the HNSW candidates rarely fail
+    // the asOf check alone
+    results = await query(db);
+  } else if (
+    filterStrategy === "exact" ||
+    (filterStrategy === "auto" && options.filter?.documentIds)
+  ) {
+    results = await db.transaction(async (tx) => {
+      await tx.execute(sql`SET LOCAL enable_indexscan = off`);
+      return query(tx);
+    });
+  } else {
+    // HNSW filters after finding its nearest candidates, so a selective
+    // filter could return fewer than `limit` rows. Keep scanning instead
+    // (pgvector 0.8+), or at least widen the candidate list
+    const iterative = await supportsIterativeScan();
+    results = await db.transaction(async (tx) => {
+      if (iterative) {
+        await tx.execute(sql`SET LOCAL hnsw.iterative_scan = relaxed_order`);
+      }
+      await tx.execute(
+        sql.raw(
+          `SET LOCAL hnsw.ef_search = ${Math.min(1000, Math.max(100, limit * 4))}`,
+        ),
+      );
+      return query(tx);
+    });
+    // Relaxed order can return rows slightly out of order
+    results.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  return results.map((row) => ({
+    id: row.id,
+    content: row.content,
+    sectionTitle: row.sectionTitle,
+    similarity: row.similarity,
+    documentId: row.documentId,
+    documentTitle: row.documentTitle,
+    sourceUrl: row.sourceUrl,
+    audience: row.audience,
+    page: row.page,
+    effectiveFrom: row.effectiveFrom,
+    effectiveTo: row.effectiveTo,
+  }));
+}
+
+/**
+ * Search for text chunks using full-text search over content and section titles
+ * @param queryText - The raw search query
+ * @param queryEmbedding - The query embedding, used to report cosine similarity
+ * @param options - Result limit (default: 5), collection for similarity
+ *   (default: the serving collection) and metadata filter
+ * @returns Array of matching text chunks ordered by text rank
+ */
+export async function searchLexicalChunks(
+  queryText: string,
+  queryEmbedding: number[],
+  options: SearchOptions = {},
+): Promise<SearchResult[]> {
+  const { limit = 5 } = options;
+  const searchCollection = options.collection ?? (await getServingCollection());
+  const distance = cosineDistance(queryEmbedding, searchCollection);
+  const tsQuery = sql`websearch_to_tsquery('english', ${queryText})`;
+
   const results = await db
     .select({
       id: textChunks.id,
@@ -44,23 +395,116 @@ export async function searchSimilarChunks(
       documentId: textChunks.documentId,
       documentTitle: documents.title,
       sourceUrl: documents.sourceUrl,
-      similarity: sql<number>`1 - (${textChunks.embedding} <=> ${embeddingStr}::vector)`,
+      audience: chunkAudience,
+      page: textChunks.page,
+      effectiveFrom: documents.effectiveFrom,
+      effectiveTo: documents.effectiveTo,
+      similarity: sql<number>`coalesce(1 - ${distance}, 0)`,
     })
     .from(textChunks)
-    .innerJoin(documents, sql`${textChunks.documentId} = ${documents.id}`)
+    .innerJoin(documents, eq(textChunks.documentId, documents.id))
+    .leftJoin(
+      chunkEmbeddings,
+      and(
+        eq(chunkEmbeddings.chunkId, textChunks.id),
+        eq(chunkEmbeddings.model, searchCollection.name),
+      ),
+    )
     .where(
-      sql`1 - (${textChunks.embedding} <=> ${embeddingStr}::vector) >= ${similarityThreshold}`,
+      and(
+        sql`${textChunks.searchVector} @@ ${tsQuery}`,
+        filterCondition(options.filter),
+        asOfCondition(options.filter),
+      ),
     )
-    .orderBy(sql`${textChunks.embedding} <=> ${embeddingStr}::vector ASC`)
+    .orderBy(sql`ts_rank_cd(${textChunks.searchVector}, ${tsQuery}) DESC`)
     .limit(limit);
 
-  return results.map((row) => ({
-    id: row.id,
-    content: row.content,
-    sectionTitle: row.sectionTitle,
-    similarity: row.similarity,
-    documentId: row.documentId,
-    documentTitle: row.documentTitle,
-    sourceUrl: row.sourceUrl,
-  }));
+  return results;
+}
+
+/**
+ * Search for text chunks by fusing lexical and vector rankings
+ * Uses weighted reciprocal rank fusion: score = sum(weight / (rrfK + rank))
+ *
+ * @param queryText - The raw search query, used for full-text matching
+ * @param queryEmbedding - The embedding vector for the search query, from the collection's model
+ * @param options - Result limit, similarity threshold, fusion weights, collection,
+ *   metadata filter and topic scope
+ * @returns Array of matching text chunks ordered by fused score
+ */
+export async function hybridSearchChunks(
+  queryText: string,
+  queryEmbedding: number[],
+  options: HybridSearchOptions = {},
+): Promise<HybridSearchResult[]> {
+  const {
+    limit = 5,
+    similarityThreshold = 0.7,
+    candidateLimit = 20,
+    vectorWeight = 1,
+    lexicalWeight = 1,
+    rrfK = 60,
+    filterStrategy,
+    scope,
+    scopeBoost = 2,
+    audienceBoost = 1.5,
+  } = options;
+  const collection = options.collection ?? (await getServingCollection());
+  const filter: SearchFilter = {
+    ...options.filter,
+    scope: scope?.mode === "restrict" ? scope.chunks : options.filter?.scope,
+  };
+
+  const [vectorResults, lexicalResults] = await Promise.all([
+    searchSimilarChunks(queryEmbedding, {
+      limit: candidateLimit,
+      similarityThreshold,
+      collection,
+      filter,
+      filterStrategy,
+    }),
+    searchLexicalChunks(queryText, queryEmbedding, {
+      limit: candidateLimit,
+      collection,
+      filter,
+    }),
+  ]);
+
+  const fused = new Map<string, HybridSearchResult>();
+
+  const addRanking = (results: SearchResult[], weight: number) => {
+    results.forEach((result, i) => {
+      const contribution = weight / (rrfK + i + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(result.id, { ...result, score: contribution });
+      }
+    });
+  };
+
+  addRanking(vectorResults, vectorWeight);
+  addRanking(lexicalResults, lexicalWeight);
+
+  if (scope?.mode === "boost") {
+    for (const result of fused.values()) {
+      if (isInScope(result, scope.chunks)) {
+        result.score *= scopeBoost;
+      }
+    }
+  }
+
+  // Chunks written for the asker's role outrank general ones
+  const audience = options.filter?.audience;
+  if (audience) {
+    for (const result of fused.values()) {
+      if (result.audience?.includes(audience)) {
+        result.score *= audienceBoost;
+      }
+    }
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, limit);
 }